@@ -155,5 +155,19 @@ export const authenticateSession = (
   });
 };
 
+// Accept the access token as a query parameter for clients that cannot set
+// headers (e.g. the browser EventSource API). Only use on streaming endpoints.
+export const acceptQueryToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const token = req.query.access_token;
+  if (!req.headers.authorization && typeof token === 'string' && token.length > 0) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  next();
+};
+
 // Alias for authenticateJWT (commonly used in routes)
 export const protect = authenticateJWT;
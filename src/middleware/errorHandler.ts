@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import logger from '../utils/logger';
+import logger, { redactUrl } from '../utils/logger';
 
 // Custom error class
 export class AppError extends Error {
@@ -38,7 +38,7 @@ export const errorHandler = (
   logger.error('Error:', {
     message: err.message,
     stack: err.stack,
-    url: req.url,
+    url: redactUrl(req.url),
     method: req.method,
     ip: req.ip,
     userAgent: req.get('User-Agent'),
@@ -137,7 +137,7 @@ export const errorHandler = (
 
 // 404 handler
 export const notFound = (req: Request, res: Response, next: NextFunction): void => {
-  const error = new AppError(`Route ${req.originalUrl} not found`, 404);
+  const error = new AppError(`Route ${redactUrl(req.originalUrl)} not found`, 404);
   next(error);
 };
 
@@ -319,8 +319,9 @@ export const suspiciousPatternDetection = (req: Request, res: Response, next: Ne
   next();
 };
 
-// Validate file upload security
-export const validateFileUpload = (req: Request, res: Response, next: NextFunction): void => {
+// Validate file upload security. `maxSize` (in bytes) overrides MAX_FILE_SIZE for routes
+// that accept larger uploads.
+export const createFileUploadValidator = (options: { maxSize?: number } = {}) => (req: Request, res: Response, next: NextFunction): void => {
   // Check if request contains file uploads
   if (req.file || req.files) {
     const files: any[] = [];
@@ -341,11 +342,11 @@ export const validateFileUpload = (req: Request, res: Response, next: NextFuncti
       if (!file || typeof file !== 'object') continue;
       
       // Check file size
-      const maxSize = parseInt(process.env.MAX_FILE_SIZE?.replace(/[^0-9]/g, '') || '5') * 1024 * 1024;
+      const maxSize = options.maxSize ?? parseInt(process.env.MAX_FILE_SIZE?.replace(/[^0-9]/g, '') || '5') * 1024 * 1024;
       if (typeof file.size === 'number' && file.size > maxSize) {
         res.status(413).json({
           success: false,
-          message: `File too large. Maximum size is ${process.env.MAX_FILE_SIZE || '5mb'}`,
+          message: `File too large. Maximum size is ${options.maxSize ? `${Math.floor(options.maxSize / (1024 * 1024))}mb` : process.env.MAX_FILE_SIZE || '5mb'}`,
         });
         return;
       }
@@ -359,6 +360,8 @@ export const validateFileUpload = (req: Request, res: Response, next: NextFuncti
         'application/pdf',
         'text/plain',
         'application/json',
+        'application/zip',
+        'application/x-zip-compressed',
       ];
       
       if (file.mimetype && !allowedMimeTypes.includes(file.mimetype)) {
@@ -392,6 +395,8 @@ export const validateFileUpload = (req: Request, res: Response, next: NextFuncti
   next();
 };
 
+export const validateFileUpload = createFileUploadValidator();
+
 // Enhanced CORS validation
 export const validateCorsOrigin = (origin: string | undefined, callback: (err: Error | null, allow?: boolean) => void) => {
   const allowedOrigins = process.env.NODE_ENV === 'production'
@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { IChat } from '../types';
+import GenerationEvent from './GenerationEvent';
 
 const messageSchema = new Schema({
   id: {
@@ -136,7 +137,7 @@ chatSchema.virtual('latestMessage').get(function(this: IChat) {
 });
 
 // Method to add a message
-chatSchema.methods.addMessage = function(message: {
+chatSchema.methods.addMessage = async function(message: {
   role: 'user' | 'assistant' | 'system';
   content: string;
   metadata?: any;
@@ -167,7 +168,17 @@ chatSchema.methods.addMessage = function(message: {
     this.stats.avgResponseTime = totalTime / assistantMessages.length;
   }
 
-  return this.save();
+  await this.save();
+
+  // Stream assistant replies to clients following the project's generation
+  if (message.role === 'assistant' && this.projectId) {
+    await GenerationEvent.record(this.projectId, 'message', {
+      chatId: this._id,
+      message: newMessage,
+    });
+  }
+
+  return this;
 };
 
 // Method to update context
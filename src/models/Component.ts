@@ -1,53 +1,9 @@
-import mongoose, { Schema, Document } from 'mongoose';
-import { IComponent } from '../types';
+import mongoose, { Schema } from 'mongoose';
+import semver from 'semver';
+import { IComponent, IComponentModel } from '../types';
+import ComponentVersion, { componentVariantSchema, VERSIONED_COMPONENT_FIELDS } from './ComponentVersion';
 
-const componentVariantSchema = new Schema({
-  id: {
-    type: String,
-    required: true,
-  },
-  name: {
-    type: String,
-    required: true,
-    trim: true,
-  },
-  description: {
-    type: String,
-    required: true,
-    trim: true,
-  },
-  previewImage: {
-    type: String,
-    required: true,
-  },
-  code: {
-    component: {
-      type: String,
-      required: true,
-    },
-    styles: String,
-    types: String,
-    tests: String,
-  },
-  props: [{
-    name: {
-      type: String,
-      required: true,
-    },
-    type: {
-      type: String,
-      required: true,
-    },
-    required: {
-      type: Boolean,
-      default: false,
-    },
-    description: String,
-    defaultValue: String,
-  }],
-});
-
-const componentSchema = new Schema<IComponent>(
+const componentSchema = new Schema<IComponent, IComponentModel>(
   {
     name: {
       type: String,
@@ -207,7 +163,7 @@ componentSchema.methods.updateVariant = function(variantId: string, updates: any
 // Static method to search components
 componentSchema.statics.searchComponents = function(
   query: string, 
-  filters: { category?: string; complexity?: string; tags?: string[] } = {}
+  filters: { category?: string; complexity?: string; tags?: string[]; framework?: string } = {}
 ) {
   const searchQuery: any = { status: 'active' };
   
@@ -226,9 +182,14 @@ componentSchema.statics.searchComponents = function(
   if (filters.tags && filters.tags.length > 0) {
     searchQuery.tags = { $in: filters.tags };
   }
+
+  if (filters.framework) {
+    searchQuery.frameworks = filters.framework;
+  }
   
+  // Text score is only available when searching by text
   return this.find(searchQuery)
-    .sort({ score: { $meta: 'textScore' }, usageCount: -1 })
+    .sort(query ? { score: { $meta: 'textScore' }, usageCount: -1 } : { usageCount: -1 })
     .limit(50);
 };
 
@@ -294,6 +255,38 @@ componentSchema.pre('save', function(next) {
   }
 });
 
-const Component = mongoose.model<IComponent>('Component', componentSchema);
+// Pre-save middleware to version content changes. Editing published content without
+// choosing a new version bumps the patch version past every published one; reusing a
+// published version or saving a version that is not valid semver is rejected.
+componentSchema.pre('save', async function(next) {
+  const contentChanged = VERSIONED_COMPONENT_FIELDS.some(field => this.isModified(field));
+  const publishVersion = this.isNew || contentChanged || this.isModified('version');
+
+  if (publishVersion && !semver.valid(this.version)) {
+    return next(new Error(`Version ${this.version} of ${this.name} is not a valid semantic version`));
+  }
+
+  if (!this.isNew && contentChanged && !this.isModified('version')) {
+    let bumped = semver.inc(this.version, 'patch')!;
+    while (await ComponentVersion.exists({ componentId: this._id, version: bumped })) {
+      bumped = semver.inc(bumped, 'patch')!;
+    }
+    this.version = bumped;
+  } else if (!this.isNew && this.isModified('version') && await ComponentVersion.exists({ componentId: this._id, version: this.version })) {
+    return next(new Error(`Version ${this.version} of ${this.name} is already published`));
+  }
+
+  this.$locals.publishVersion = publishVersion;
+  next();
+});
+
+// Post-save middleware to publish the saved state as an immutable version
+componentSchema.post('save', async function(doc) {
+  if (doc.$locals.publishVersion) {
+    await ComponentVersion.publish(doc);
+  }
+});
+
+const Component = mongoose.model<IComponent, IComponentModel>('Component', componentSchema);
 
 export default Component;
@@ -0,0 +1,155 @@
+import mongoose, { Schema, Types } from 'mongoose';
+import { IComponent, IComponentVersion, IComponentVersionModel } from '../types';
+
+// Shared by Component and its published versions
+export const componentVariantSchema = new Schema({
+  id: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  previewImage: {
+    type: String,
+    required: true,
+  },
+  // Styling systems the variant's code works with
+  styling: {
+    type: [{
+      type: String,
+      enum: ['tailwindcss', 'css-modules', 'styled-components'],
+    }],
+    default: ['tailwindcss'],
+  },
+  // Frameworks the variant's code targets; empty means the component's frameworks
+  frameworks: [{
+    type: String,
+    enum: ['nextjs', 'react', 'vue', 'svelte'],
+  }],
+  code: {
+    component: {
+      type: String,
+      required: true,
+    },
+    styles: String,
+    types: String,
+    tests: String,
+  },
+  props: [{
+    name: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    required: {
+      type: Boolean,
+      default: false,
+    },
+    description: String,
+    defaultValue: String,
+  }],
+});
+
+// Fields of a component that a published version freezes
+export const VERSIONED_COMPONENT_FIELDS = ['name', 'variants', 'dependencies', 'requiredIntegrations', 'frameworks'] as const;
+
+const componentVersionSchema = new Schema<IComponentVersion, IComponentVersionModel>(
+  {
+    componentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Component',
+      required: [true, 'Component ID is required'],
+    },
+    version: {
+      type: String,
+      required: [true, 'Version is required'],
+    },
+    // Snapshot of the component at publication time
+    name: {
+      type: String,
+      required: true,
+    },
+    variants: [componentVariantSchema],
+    dependencies: [String],
+    requiredIntegrations: [String],
+    frameworks: [String],
+  },
+  {
+    timestamps: { createdAt: 'publishedAt', updatedAt: false },
+    toJSON: {
+      transform: function(doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+componentVersionSchema.index({ componentId: 1, version: 1 }, { unique: true });
+componentVersionSchema.index({ componentId: 1, publishedAt: -1 });
+
+// Published versions are immutable: only inserts are allowed
+componentVersionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    next(new Error('Published component versions cannot be modified'));
+  } else {
+    next();
+  }
+});
+
+componentVersionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function(next) {
+  next(new Error('Published component versions cannot be modified'));
+});
+
+// Static method to publish a component's current state under its current version.
+// Publishing a version that already exists is a no-op.
+componentVersionSchema.statics.publish = async function(component: IComponent) {
+  const existing = await this.findOne({ componentId: component._id, version: component.version });
+  if (existing) return existing;
+
+  try {
+    return await this.create({
+      componentId: component._id,
+      version: component.version,
+      name: component.name,
+      variants: component.variants.map(variant => (variant as any).toObject ? (variant as any).toObject() : variant),
+      dependencies: component.dependencies,
+      requiredIntegrations: component.requiredIntegrations,
+      frameworks: component.frameworks,
+    });
+  } catch (error) {
+    // Another process published the same version first
+    if ((error as any).code === 11000) {
+      return this.findOne({ componentId: component._id, version: component.version });
+    }
+    throw error;
+  }
+};
+
+// Static method to load one published version
+componentVersionSchema.statics.findVersion = function(componentId: Types.ObjectId | string, version: string) {
+  return this.findOne({ componentId, version });
+};
+
+// Static method to list a component's versions, newest first, without their code
+componentVersionSchema.statics.findForComponent = function(componentId: Types.ObjectId | string) {
+  return this.find({ componentId })
+    .select('-variants.code')
+    .sort({ publishedAt: -1 });
+};
+
+const ComponentVersion = mongoose.model<IComponentVersion, IComponentVersionModel>('ComponentVersion', componentVersionSchema);
+
+export default ComponentVersion;
@@ -0,0 +1,73 @@
+import mongoose, { Schema } from 'mongoose';
+import { IFileBlob, IFileBlobModel } from '../types';
+import { hashContent } from '../utils/projectFiles';
+
+// Blobs are shared by every project and revision that contains the same content,
+// so they are never deleted together with a project.
+const fileBlobSchema = new Schema<IFileBlob, IFileBlobModel>(
+  {
+    // SHA-256 of the UTF-8 content, hex encoded
+    _id: {
+      type: String,
+      required: true,
+    },
+    content: {
+      type: String,
+      default: '',
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    lines: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function(doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Static method to store contents, skipping blobs that already exist.
+// Resolves the hash of each content in input order.
+fileBlobSchema.statics.storeMany = async function(contents: string[]) {
+  const hashes = contents.map(hashContent);
+  const unique = new Map(hashes.map((hash, index) => [hash, contents[index]!]));
+
+  if (unique.size > 0) {
+    await this.bulkWrite(
+      Array.from(unique.entries()).map(([hash, content]) => ({
+        updateOne: {
+          filter: { _id: hash },
+          update: {
+            $setOnInsert: {
+              content,
+              size: Buffer.byteLength(content, 'utf8'),
+              lines: content.split('\n').length,
+            },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+  }
+
+  return hashes;
+};
+
+// Static method to load blobs by hash
+fileBlobSchema.statics.findByHashes = function(hashes: string[]) {
+  return this.find({ _id: { $in: Array.from(new Set(hashes)) } });
+};
+
+const FileBlob = mongoose.model<IFileBlob, IFileBlobModel>('FileBlob', fileBlobSchema);
+
+export default FileBlob;
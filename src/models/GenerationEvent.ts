@@ -0,0 +1,79 @@
+import mongoose, { Schema, Types } from 'mongoose';
+import { GenerationEventType, IGenerationEvent, IGenerationEventModel } from '../types';
+import logger from '../utils/logger';
+
+const generationEventSchema = new Schema<IGenerationEvent, IGenerationEventModel>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    // Per-project sequence number, sent to clients as the SSE event id
+    seq: {
+      type: Number,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['progress', 'message', 'complete', 'error', 'cancelled'],
+      required: true,
+    },
+    data: Schema.Types.Mixed,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function(doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+generationEventSchema.index({ projectId: 1, seq: 1 }, { unique: true });
+// Events are only needed while a client may still resume the stream
+generationEventSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: parseInt(process.env.GENERATION_EVENT_TTL_SECONDS || '86400') }
+);
+
+// Static method to append an event to a project's stream.
+// Failures are logged and swallowed so that event delivery never breaks generation.
+generationEventSchema.statics.record = async function(
+  projectId: Types.ObjectId | string,
+  type: GenerationEventType,
+  data: any
+) {
+  try {
+    // The Project model is looked up lazily because it records events itself
+    const project = await mongoose.model('Project').findByIdAndUpdate(
+      projectId,
+      { $inc: { eventSeq: 1 } },
+      { new: true, projection: { eventSeq: 1 } }
+    );
+    if (!project) return null;
+
+    return await this.create({ projectId, seq: project.get('eventSeq'), type, data });
+  } catch (error) {
+    logger.error('Failed to record generation event', { projectId: projectId.toString(), type, error });
+    return null;
+  }
+};
+
+// Static method to read events after a given sequence number, oldest first
+generationEventSchema.statics.findAfter = function(
+  projectId: Types.ObjectId | string,
+  seq: number,
+  limit: number = 100
+) {
+  return this.find({ projectId, seq: { $gt: seq } })
+    .sort({ seq: 1 })
+    .limit(limit);
+};
+
+const GenerationEvent = mongoose.model<IGenerationEvent, IGenerationEventModel>('GenerationEvent', generationEventSchema);
+
+export default GenerationEvent;
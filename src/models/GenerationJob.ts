@@ -0,0 +1,267 @@
+import mongoose, { Schema } from 'mongoose';
+import { GenerationStep, IGenerationJob, IGenerationJobModel } from '../types';
+
+const GENERATION_STEPS = ['analyze', 'select', 'generate', 'quality'];
+
+// Base delay before a failed attempt is retried; doubles with every attempt
+const RETRY_BACKOFF_MS = 5000;
+
+// Thrown when a worker writes to a job whose lease has expired and may have been
+// handed to another worker
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on generation job ${jobId} was lost`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+const generationJobSchema = new Schema<IGenerationJob, IGenerationJobModel>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+      index: true,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    userInput: {
+      type: String,
+      required: [true, 'User input is required'],
+      maxlength: [2000, 'User input cannot exceed 2000 characters'],
+    },
+    preferences: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+      default: 'queued',
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    maxAttempts: {
+      type: Number,
+      default: () => parseInt(process.env.GENERATION_MAX_ATTEMPTS || '3'),
+    },
+    // Jobs are not claimed before this time (used for retry backoff)
+    availableAt: {
+      type: Date,
+      default: Date.now,
+    },
+    // Worker currently holding the job; the lease must be renewed by heartbeats
+    lease: {
+      owner: String,
+      expiresAt: Date,
+    },
+    heartbeatAt: Date,
+    // Last pipeline step whose results were persisted, used to resume after a crash
+    lastCompletedStep: {
+      type: String,
+      enum: GENERATION_STEPS,
+    },
+    // Intermediate step results not stored on the Project itself
+    state: {
+      analysis: Schema.Types.Mixed,
+      selection: Schema.Types.Mixed,
+    },
+    lastError: {
+      message: String,
+      stack: String,
+      step: {
+        type: String,
+        enum: GENERATION_STEPS,
+      },
+      timestamp: Date,
+    },
+    // Project event sequence number when the job was queued. Events up to it belong to
+    // earlier jobs, so streams opened without Last-Event-ID start after it.
+    startEventSeq: {
+      type: Number,
+      default: 0,
+    },
+    // Set by the cancel endpoint; the pipeline stops before its next step
+    cancelRequestedAt: Date,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+generationJobSchema.index({ status: 1, availableAt: 1 });
+generationJobSchema.index({ status: 1, 'lease.expiresAt': 1 });
+
+// Method to extend the lease; resolves false if another worker has taken the job over
+generationJobSchema.methods.heartbeat = async function(leaseMs: number) {
+  const now = new Date();
+  const result = await GenerationJob.updateOne(
+    { _id: this._id, status: 'running', 'lease.owner': this.lease?.owner },
+    { $set: { heartbeatAt: now, 'lease.expiresAt': new Date(now.getTime() + leaseMs) } }
+  );
+  return result.matchedCount === 1;
+};
+
+// Save changes made by the worker holding the lease. The write only applies while the job
+// is still running under that lease; throws LeaseLostError otherwise.
+const saveAsLeaseOwner = async (job: IGenerationJob, owner: string | undefined): Promise<IGenerationJob> => {
+  job.$where = { status: 'running', 'lease.owner': owner };
+  try {
+    return await job.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      throw new LeaseLostError(job._id.toString());
+    }
+    throw error;
+  }
+};
+
+// Method to record a finished pipeline step and its output
+generationJobSchema.methods.completeStep = function(this: IGenerationJob, step: GenerationStep, state: Record<string, any> = {}) {
+  this.lastCompletedStep = step;
+  for (const [key, value] of Object.entries(state)) {
+    this.set(`state.${key}`, value);
+  }
+  return saveAsLeaseOwner(this, this.lease?.owner);
+};
+
+// Method to mark as completed
+generationJobSchema.methods.markCompleted = function(this: IGenerationJob) {
+  const owner = this.lease?.owner;
+  this.status = 'completed';
+  this.completedAt = new Date();
+  this.lease = undefined;
+  return saveAsLeaseOwner(this, owner);
+};
+
+// Method to mark as cancelled
+generationJobSchema.methods.markCancelled = function(this: IGenerationJob) {
+  const owner = this.lease?.owner;
+  this.status = 'cancelled';
+  this.completedAt = new Date();
+  this.lease = undefined;
+  return saveAsLeaseOwner(this, owner);
+};
+
+// Method to record a failure; resolves true when the job was requeued for another attempt
+generationJobSchema.methods.markFailed = async function(this: IGenerationJob, error: Error, step?: GenerationStep) {
+  const owner = this.lease?.owner;
+  const retryable = this.attempts < this.maxAttempts;
+
+  this.lastError = {
+    message: error.message,
+    stack: error.stack,
+    step,
+    timestamp: new Date(),
+  };
+  this.lease = undefined;
+
+  if (retryable) {
+    this.status = 'queued';
+    this.availableAt = new Date(Date.now() + RETRY_BACKOFF_MS * Math.pow(2, this.attempts - 1));
+  } else {
+    this.status = 'failed';
+    this.completedAt = new Date();
+  }
+
+  await saveAsLeaseOwner(this, owner);
+  return retryable;
+};
+
+// Static method to add a job to the queue
+generationJobSchema.statics.enqueue = function(job: Record<string, any>) {
+  return this.create({
+    ...job,
+    status: 'queued',
+    availableAt: new Date(),
+  });
+};
+
+// Static method to atomically claim the oldest available job
+generationJobSchema.statics.claimNext = function(workerId: string, leaseMs: number) {
+  const now = new Date();
+  return this.findOneAndUpdate(
+    { status: 'queued', availableAt: { $lte: now } },
+    {
+      $set: {
+        status: 'running',
+        'lease.owner': workerId,
+        'lease.expiresAt': new Date(now.getTime() + leaseMs),
+        heartbeatAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { availableAt: 1 }, new: true }
+  );
+};
+
+// Static method to find the queued or running job of a project
+generationJobSchema.statics.findActiveForProject = function(projectId: string) {
+  return this.findOne({ projectId, status: { $in: ['queued', 'running'] } });
+};
+
+// Static method to release jobs whose worker stopped heartbeating.
+// Jobs with attempts left are requeued; jobs that were being cancelled or have no
+// attempts left are finished and returned so their projects can be updated.
+generationJobSchema.statics.recoverStaleLeases = async function() {
+  const now = new Date();
+  const stale = { status: 'running', 'lease.expiresAt': { $lt: now } };
+
+  const requeued = await this.updateMany(
+    { ...stale, cancelRequestedAt: { $exists: false }, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+    {
+      $set: {
+        status: 'queued',
+        availableAt: now,
+        lastError: { message: 'Worker lease expired', timestamp: now },
+      },
+      $unset: { lease: '' },
+    }
+  );
+
+  const failed: IGenerationJob[] = [];
+  const cancelled: IGenerationJob[] = [];
+  for (const candidate of await this.find(stale).select('cancelRequestedAt')) {
+    // The stale filter is repeated so a job whose worker renewed its lease meanwhile is left alone
+    const job = await this.findOneAndUpdate(
+      { _id: candidate._id, ...stale },
+      {
+        $set: candidate.cancelRequestedAt
+          ? { status: 'cancelled', completedAt: now }
+          : {
+            status: 'failed',
+            completedAt: now,
+            lastError: { message: 'Worker lease expired after final attempt', timestamp: now },
+          },
+        $unset: { lease: '' },
+      },
+      { new: true }
+    );
+    if (!job) continue;
+
+    (job.status === 'cancelled' ? cancelled : failed).push(job);
+  }
+
+  return { requeued: requeued.modifiedCount, failed, cancelled };
+};
+
+const GenerationJob = mongoose.model<IGenerationJob, IGenerationJobModel>('GenerationJob', generationJobSchema);
+
+export default GenerationJob;
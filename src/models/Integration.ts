@@ -1,7 +1,9 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IIntegration } from '../types';
+import { IIntegration, IIntegrationModel } from '../types';
+import IntegrationRating from './IntegrationRating';
+import { checkSchema, validateAgainstSchema } from '../utils/jsonSchema';
 
-const integrationSchema = new Schema<IIntegration>(
+const integrationSchema = new Schema<IIntegration, IIntegrationModel>(
   {
     name: {
       type: String,
@@ -214,21 +216,18 @@ integrationSchema.methods.incrementUsage = function() {
   return this.save();
 };
 
-// Method to add a rating
-integrationSchema.methods.addRating = function(rating: number) {
-  const totalRating = this.rating.average * this.rating.count;
-  this.rating.count += 1;
-  this.rating.average = (totalRating + rating) / this.rating.count;
+// Method to recompute the rating summary from individual user ratings
+integrationSchema.methods.refreshRating = async function() {
+  this.rating = await IntegrationRating.summarize(this._id);
   return this.save();
 };
 
 // Method to validate configuration
 integrationSchema.methods.validateConfig = function(config: any) {
   if (!this.configSchema) return { valid: true };
-  
-  // Here you would implement JSON schema validation
-  // For now, just return valid
-  return { valid: true };
+
+  const { valid, errors } = validateAgainstSchema(this.configSchema, config);
+  return valid ? { valid } : { valid, errors };
 };
 
 // Static method to find by category
@@ -261,8 +260,9 @@ integrationSchema.statics.searchIntegrations = function(
     searchQuery['pricing.free'] = filters.free;
   }
   
+  // Text score is only available when searching by text
   return this.find(searchQuery)
-    .sort({ score: { $meta: 'textScore' }, usageCount: -1 })
+    .sort(query ? { score: { $meta: 'textScore' }, usageCount: -1 } : { usageCount: -1 })
     .limit(50);
 };
 
@@ -271,7 +271,7 @@ integrationSchema.statics.getFeatured = function(limit: number = 6) {
   return this.find({ featured: true, status: 'active' })
     .sort({ usageCount: -1 })
     .limit(limit)
-    .select('name description logo category provider rating usageCount');
+    .select('name slug description logo category provider rating usageCount');
 };
 
 // Static method to get popular integrations
@@ -279,7 +279,7 @@ integrationSchema.statics.getPopular = function(limit: number = 10) {
   return this.find({ status: 'active' })
     .sort({ usageCount: -1 })
     .limit(limit)
-    .select('name description logo category provider rating usageCount');
+    .select('name slug description logo category provider rating usageCount');
 };
 
 // Static method to find compatible integrations
@@ -309,8 +309,8 @@ integrationSchema.statics.findByRequirements = function(requirements: string[])
   }).sort({ usageCount: -1 });
 };
 
-// Pre-save middleware to generate slug from name
-integrationSchema.pre('save', function(next) {
+// Pre-validate middleware to generate slug from name, so the required check sees it
+integrationSchema.pre('validate', function(next) {
   if (this.isModified('name') && !this.slug) {
     this.slug = this.name
       .toLowerCase()
@@ -333,6 +333,19 @@ integrationSchema.pre('save', function(next) {
   }
 });
 
-const Integration = mongoose.model<IIntegration>('Integration', integrationSchema);
+// Pre-save middleware to reject config schemas that are not valid JSON Schema
+integrationSchema.pre('save', function(next) {
+  if (!this.isModified('configSchema') || !this.configSchema) return next();
+
+  const problems = checkSchema(this.configSchema);
+  if (problems.length > 0) {
+    const details = problems.map(problem => `${problem.path || '(root)'} ${problem.message}`).join('; ');
+    next(new Error(`Invalid configSchema: ${details}`));
+  } else {
+    next();
+  }
+});
+
+const Integration = mongoose.model<IIntegration, IIntegrationModel>('Integration', integrationSchema);
 
 export default Integration;
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Types } from 'mongoose';
+import { IIntegrationRating, IIntegrationRatingModel } from '../types';
+
+const integrationRatingSchema = new Schema<IIntegrationRating, IIntegrationRatingModel>(
+  {
+    integrationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Integration',
+      required: [true, 'Integration ID is required'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    rating: {
+      type: Number,
+      required: [true, 'Rating is required'],
+      min: [1, 'Rating must be between 1 and 5'],
+      max: [5, 'Rating must be between 1 and 5'],
+    },
+    review: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Review cannot exceed 1000 characters'],
+    },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// One rating per user and integration
+integrationRatingSchema.index({ integrationId: 1, userId: 1 }, { unique: true });
+integrationRatingSchema.index({ integrationId: 1, updatedAt: -1 });
+
+// Static method to create or replace a user's rating of an integration
+integrationRatingSchema.statics.rate = async function(
+  integrationId: Types.ObjectId | string,
+  userId: Types.ObjectId | string,
+  rating: number,
+  review?: string
+) {
+  const existing = await this.exists({ integrationId, userId });
+  const doc = await this.findOneAndUpdate(
+    { integrationId, userId },
+    { $set: review === undefined ? { rating } : { rating, review } },
+    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+  return { rating: doc, created: !existing };
+};
+
+// Static method to compute an integration's average rating from scratch
+integrationRatingSchema.statics.summarize = async function(integrationId: Types.ObjectId | string) {
+  const [summary] = await this.aggregate([
+    { $match: { integrationId: new Types.ObjectId(integrationId.toString()) } },
+    { $group: { _id: null, average: { $avg: '$rating' }, count: { $sum: 1 } } },
+  ]);
+
+  return summary
+    ? { average: Math.round(summary.average * 100) / 100, count: summary.count }
+    : { average: 0, count: 0 };
+};
+
+const IntegrationRating = mongoose.model<IIntegrationRating, IIntegrationRatingModel>('IntegrationRating', integrationRatingSchema);
+
+export default IntegrationRating;
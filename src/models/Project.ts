@@ -1,7 +1,8 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IProject } from '../types';
+import { IProject, IProjectModel } from '../types';
+import GenerationEvent from './GenerationEvent';
 
-const projectSchema = new Schema<IProject>(
+const projectSchema = new Schema<IProject, IProjectModel>(
   {
     name: {
       type: String,
@@ -22,7 +23,7 @@ const projectSchema = new Schema<IProject>(
     },
     status: {
       type: String,
-      enum: ['analyzing', 'selecting', 'generating', 'complete', 'error'],
+      enum: ['analyzing', 'selecting', 'generating', 'complete', 'error', 'cancelled'],
       default: 'analyzing',
       index: true,
     },
@@ -64,28 +65,39 @@ const projectSchema = new Schema<IProject>(
         required: true,
       },
       variantId: String,
+      // Published component version the files were rendered from
+      version: String,
       customizations: Schema.Types.Mixed,
     }],
-    // Generated project structure
+    // Generated project structure; contents live in the FileBlob store
     files: [{
       path: {
         type: String,
         required: true,
       },
-      content: {
-        type: String,
-        required: true,
-      },
       type: {
         type: String,
         enum: ['file', 'directory'],
         default: 'file',
       },
+      size: {
+        type: Number,
+        default: 0,
+      },
+      // SHA-256 of the contents (FileBlob id)
+      hash: String,
+      // Inline contents of projects saved before the blob store existed
+      content: String,
     }],
     // Package.json content
     packageJson: Schema.Types.Mixed,
     // Required integrations
     integrations: [String],
+    // Configuration supplied for each integration, keyed by slug
+    integrationConfigs: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
     // Quality metrics
     qualityScore: {
       type: Number,
@@ -110,9 +122,17 @@ const projectSchema = new Schema<IProject>(
     techStack: {
       framework: String,
       language: String,
-      styling: String,
+      styling: {
+        type: String,
+        enum: ['tailwindcss', 'css-modules', 'styled-components'],
+        default: 'tailwindcss',
+      },
       database: String,
       auth: String,
+      payments: {
+        type: String,
+        default: 'none',
+      },
     },
     // File sizes and project stats
     stats: {
@@ -135,12 +155,68 @@ const projectSchema = new Schema<IProject>(
       default: false,
     },
     shareToken: String,
+    // Settings of the share link; kept when the token is rotated
+    shareSettings: {
+      expiresAt: Date,
+      allowDownload: {
+        type: Boolean,
+        default: false,
+      },
+      views: {
+        type: Number,
+        default: 0,
+      },
+      lastViewedAt: Date,
+    },
     // Error information
     error: {
       message: String,
       stack: String,
       timestamp: Date,
     },
+    // Incremented every time the project's files change after generation
+    revision: {
+      type: Number,
+      default: 1,
+    },
+    // Project this one was copied from, kept for attribution
+    forkedFrom: {
+      projectId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Project',
+      },
+      userId: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      name: String,
+      revision: Number,
+    },
+    // Number of times this project has been forked
+    forkCount: {
+      type: Number,
+      default: 0,
+    },
+    // History of generation runs, so users can see why earlier attempts failed
+    generationAttempts: [{
+      jobId: {
+        type: Schema.Types.ObjectId,
+        ref: 'GenerationJob',
+      },
+      status: {
+        type: String,
+        enum: ['complete', 'failed', 'cancelled'],
+      },
+      failedStep: String,
+      error: String,
+      startedAt: Date,
+      endedAt: Date,
+    }],
+    // Last sequence number used for this project's generation events
+    eventSeq: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
@@ -148,6 +224,7 @@ const projectSchema = new Schema<IProject>(
       transform: function(doc, ret) {
         // Don't expose internal fields
         delete ret.__v;
+        delete ret.eventSeq;
         return ret;
       },
     },
@@ -158,37 +235,94 @@ const projectSchema = new Schema<IProject>(
 projectSchema.index({ userId: 1, createdAt: -1 });
 projectSchema.index({ status: 1 });
 projectSchema.index({ isPublic: 1, createdAt: -1 });
+projectSchema.index({ isPublic: 1, forkCount: -1 });
+projectSchema.index({ 'forkedFrom.projectId': 1 }, { sparse: true });
 projectSchema.index({ shareToken: 1 }, { sparse: true });
 projectSchema.index({ 'requirements.complexity': 1 });
 
+// Text index for project search
+projectSchema.index(
+  {
+    name: 'text',
+    description: 'text',
+    userInput: 'text',
+    'requirements.features': 'text',
+    'requirements.entities': 'text',
+  },
+  {
+    weights: {
+      name: 10,
+      'requirements.features': 5,
+      'requirements.entities': 5,
+      description: 3,
+      userInput: 1,
+    },
+  }
+);
+
 // Virtual for project size in MB
 projectSchema.virtual('sizeInMB').get(function(this: IProject) {
   return this.stats?.totalSize ? (this.stats.totalSize / (1024 * 1024)).toFixed(2) : '0';
 });
 
 // Method to update progress
-projectSchema.methods.updateProgress = function(progress: number, step: string) {
+projectSchema.methods.updateProgress = async function(progress: number, step: string) {
   this.progress = Math.min(100, Math.max(0, progress));
   this.currentStep = step;
-  return this.save();
+  await this.save();
+  await GenerationEvent.record(this._id, 'progress', {
+    status: this.status,
+    progress: this.progress,
+    currentStep: this.currentStep,
+  });
+  return this;
 };
 
 // Method to mark as complete
-projectSchema.methods.markComplete = function() {
+projectSchema.methods.markComplete = async function() {
   this.status = 'complete';
   this.progress = 100;
   this.currentStep = 'Complete';
-  return this.save();
+  await this.save();
+  await GenerationEvent.record(this._id, 'complete', {
+    status: this.status,
+    qualityScore: this.qualityScore,
+    stats: this.stats,
+  });
+  return this;
 };
 
 // Method to mark as error
-projectSchema.methods.markError = function(error: Error) {
+projectSchema.methods.markError = async function(error: Error) {
   this.status = 'error';
   this.error = {
     message: error.message,
     stack: error.stack,
     timestamp: new Date(),
   };
+  await this.save();
+  await GenerationEvent.record(this._id, 'error', {
+    status: this.status,
+    message: error.message,
+  });
+  return this;
+};
+
+// Method to mark as cancelled
+projectSchema.methods.markCancelled = async function() {
+  this.status = 'cancelled';
+  this.currentStep = 'Cancelled';
+  await this.save();
+  await GenerationEvent.record(this._id, 'cancelled', {
+    status: this.status,
+    progress: this.progress,
+  });
+  return this;
+};
+
+// Method to append a finished generation run to the attempt history
+projectSchema.methods.recordAttempt = function(attempt: Record<string, any>) {
+  this.generationAttempts.push({ ...attempt, endedAt: new Date() });
   return this.save();
 };
 
@@ -199,6 +333,34 @@ projectSchema.methods.generateShareToken = function() {
   return this.save();
 };
 
+// Method to save pending changes as the next revision. The write only applies if no other
+// request has moved the project past the revision this document was loaded at; resolves
+// false, leaving the document unsaved, when one has.
+projectSchema.methods.saveRevision = async function() {
+  const expected = this.revision || 1;
+  this.revision = expected + 1;
+  this.$where = { revision: expected };
+  try {
+    await this.save();
+    return true;
+  } catch (error) {
+    if (error instanceof mongoose.Error.DocumentNotFoundError) {
+      this.revision = expected;
+      return false;
+    }
+    throw error;
+  } finally {
+    this.$where = undefined;
+  }
+};
+
+// Method to revoke the share link and reset its settings
+projectSchema.methods.revokeShareToken = function() {
+  this.shareToken = undefined;
+  this.shareSettings = { expiresAt: null, allowDownload: false, views: 0 };
+  return this.save();
+};
+
 // Static method to find user's projects
 projectSchema.statics.findByUserId = function(userId: string, limit: number = 20) {
   return this.find({ userId })
@@ -212,32 +374,21 @@ projectSchema.statics.findPublic = function(limit: number = 20) {
   return this.find({ isPublic: true, status: 'complete' })
     .sort({ createdAt: -1 })
     .limit(limit)
-    .select('name description requirements stats qualityScore createdAt')
+    .select('name description requirements stats qualityScore forkCount forkedFrom createdAt')
     .populate('userId', 'firstName lastName avatar');
 };
 
-// Static method to find by share token
+// Static method to find by share token, ignoring expired links
 projectSchema.statics.findByShareToken = function(shareToken: string) {
-  return this.findOne({ shareToken, status: 'complete' })
+  return this.findOne({
+    shareToken,
+    status: 'complete',
+    $or: [{ 'shareSettings.expiresAt': null }, { 'shareSettings.expiresAt': { $gt: new Date() } }],
+  })
     .populate('userId', 'firstName lastName avatar')
     .populate('components.componentId', 'name category');
 };
 
-// Pre-save middleware to calculate stats
-projectSchema.pre('save', function(next) {
-  if (this.files && this.files.length > 0) {
-    this.stats = this.stats || {};
-    this.stats.totalFiles = this.files.filter(f => f.type === 'file').length;
-    this.stats.totalSize = this.files.reduce((size, file) => {
-      return size + (file.type === 'file' ? Buffer.byteLength(file.content, 'utf8') : 0);
-    }, 0);
-    this.stats.linesOfCode = this.files.reduce((lines, file) => {
-      return lines + (file.type === 'file' ? file.content.split('\n').length : 0);
-    }, 0);
-  }
-  next();
-});
-
-const Project = mongoose.model<IProject>('Project', projectSchema);
+const Project = mongoose.model<IProject, IProjectModel>('Project', projectSchema);
 
 export default Project;
@@ -0,0 +1,132 @@
+import mongoose, { Schema, Types } from 'mongoose';
+import { IProject, IProjectRevision, IProjectRevisionModel, RevisionSnapshotOptions } from '../types';
+
+const projectRevisionSchema = new Schema<IProjectRevision, IProjectRevisionModel>(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    // Matches Project.revision at the time of the snapshot
+    revision: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    // What produced this revision
+    source: {
+      type: String,
+      enum: ['generation', 'refinement', 'restore', 'integration', 'upgrade', 'edit', 'import', 'fork'],
+      required: true,
+    },
+    summary: {
+      type: String,
+      maxlength: [5000, 'Summary cannot exceed 5000 characters'],
+    },
+    // Revision whose contents were restored (source 'restore' only)
+    restoredFrom: Number,
+    // Who changed which files (source 'edit' only)
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    edits: {
+      type: [{
+        _id: false,
+        path: {
+          type: String,
+          required: true,
+        },
+        operation: {
+          type: String,
+          enum: ['create', 'update', 'delete', 'rename'],
+          required: true,
+        },
+        from: String,
+      }],
+      default: undefined,
+    },
+    // Full snapshot of the generated output; contents are shared through the FileBlob store
+    files: [{
+      _id: false,
+      path: {
+        type: String,
+        required: true,
+      },
+      type: {
+        type: String,
+        enum: ['file', 'directory'],
+        default: 'file',
+      },
+      size: Number,
+      hash: String,
+      content: String,
+    }],
+    packageJson: Schema.Types.Mixed,
+    components: [{
+      _id: false,
+      componentId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Component',
+      },
+      variantId: String,
+      version: String,
+      customizations: Schema.Types.Mixed,
+    }],
+    qualityScore: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      transform: function(doc, ret) {
+        delete ret.__v;
+        return ret;
+      },
+    },
+  }
+);
+
+// Indexes
+projectRevisionSchema.index({ projectId: 1, revision: -1 }, { unique: true });
+
+// Static method to snapshot a project's current output under its current revision number.
+// Revisions are never overwritten: snapshotting a revision that already exists fails with
+// a duplicate key error.
+projectRevisionSchema.statics.snapshot = function(
+  project: IProject,
+  options: RevisionSnapshotOptions
+) {
+  return this.create({
+    projectId: project._id,
+    revision: project.revision,
+    source: options.source,
+    summary: options.summary,
+    restoredFrom: options.restoredFrom,
+    author: options.author,
+    edits: options.edits,
+    files: project.files.map(({ path, type, size, hash, content }) => ({ path, type, size, hash, content })),
+    packageJson: project.packageJson,
+    components: project.components.map(({ componentId, variantId, version, customizations }) => ({ componentId, variantId, version, customizations })),
+    qualityScore: project.qualityScore,
+  });
+};
+
+// Static method to list a project's revisions, newest first, without their contents
+projectRevisionSchema.statics.findForProject = function(projectId: Types.ObjectId | string) {
+  return this.find({ projectId })
+    .select('-files -packageJson -components')
+    .sort({ revision: -1 });
+};
+
+// Static method to load a single revision with its contents
+projectRevisionSchema.statics.findRevision = function(projectId: Types.ObjectId | string, revision: number) {
+  return this.findOne({ projectId, revision });
+};
+
+const ProjectRevision = mongoose.model<IProjectRevision, IProjectRevisionModel>('ProjectRevision', projectRevisionSchema);
+
+export default ProjectRevision;
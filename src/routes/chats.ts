@@ -0,0 +1,113 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { AuthenticatedRequest, ApiResponse, ChatMessageRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../middleware/errorHandler';
+import { protect } from '../middleware/auth';
+import Project from '../models/Project';
+import Chat from '../models/Chat';
+import GenerationJob from '../models/GenerationJob';
+import { getAIProvider } from '../services/aiService';
+import { RefinementConflictError, refineProject } from '../services/refinementService';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+// @desc    Send a follow-up message to refine a generated project
+// @route   POST /api/chats/:chatId/messages
+// @access  Private
+router.post(
+  '/:chatId/messages',
+  protect,
+  [
+    param('chatId').isMongoId().withMessage('Invalid chat ID'),
+    body('message')
+      .isString()
+      .trim()
+      .isLength({ min: 2, max: 2000 })
+      .withMessage('Message must be between 2 and 2000 characters'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { message }: ChatMessageRequest = req.body;
+    const userId = req.user!._id;
+
+    const chat = await Chat.findOne({ _id: req.params.chatId, userId });
+    if (!chat) {
+      throw new AppError('Chat not found', 404);
+    }
+    if (!chat.projectId) {
+      throw new AppError('Chat is not linked to a project', 400);
+    }
+
+    const project = await Project.findOne({ _id: chat.projectId, userId });
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+    if (project.status !== 'complete') {
+      throw new AppError('Project must finish generating before it can be refined', 409);
+    }
+    // The pipeline marks a project complete before its job has finished
+    if (await GenerationJob.findActiveForProject(project._id)) {
+      throw new AppError('Cannot refine a project while generation is in progress', 409);
+    }
+
+    // Reopen the conversation for refinement
+    chat.status = 'active';
+    await chat.addMessage({ role: 'user', content: message });
+    await chat.updateContext({ currentIntent: 'refine_project', lastUserInput: message });
+
+    const startTime = Date.now();
+    let result;
+    try {
+      result = await refineProject({ project, chat, request: message });
+    } catch (error) {
+      if (error instanceof RefinementConflictError) {
+        await chat.addMessage({
+          role: 'assistant',
+          content: 'The project was changed while I was working on that request, so nothing was applied. Please send it again.',
+          metadata: { processingTime: Date.now() - startTime, model: getAIProvider().name },
+        });
+        throw new AppError('Project was changed by another request; reload it and try again', 409);
+      }
+      logger.error('Project refinement failed', {
+        projectId: project._id.toString(),
+        chatId: chat._id.toString(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      await chat.addMessage({
+        role: 'assistant',
+        content: 'Sorry, I could not apply that change. Please try rephrasing your request.',
+        metadata: { processingTime: Date.now() - startTime, model: getAIProvider().name },
+      });
+      throw new AppError('Failed to refine project', 502);
+    }
+
+    const summary = result.changes.length > 0
+      ? `${result.explanation}\n\nChanged files:\n${result.changes.map(change => `- ${change.operation} ${change.path}`).join('\n')}`
+      : result.explanation;
+
+    await chat.addMessage({
+      role: 'assistant',
+      content: summary.slice(0, 5000),
+      metadata: { processingTime: Date.now() - startTime, model: getAIProvider().name },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: result.changes.length > 0 ? 'Project updated successfully' : 'No changes were applied',
+      data: {
+        chatId: chat._id,
+        projectId: project._id,
+        reply: chat.messages[chat.messages.length - 1],
+        ...result,
+      },
+    } as ApiResponse);
+  })
+);
+
+export default router;
@@ -0,0 +1,527 @@
+import express from 'express';
+import { query, param, body, validationResult } from 'express-validator';
+import { AuthenticatedRequest, ApiResponse, ComponentSearchRequest, IComponentVariant } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../middleware/errorHandler';
+import { protect, authorizeRoles } from '../middleware/auth';
+import Component from '../models/Component';
+import ComponentVersion from '../models/ComponentVersion';
+import Project from '../models/Project';
+import { resolveDependencies } from '../services/dependencyResolver';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+const CATEGORIES = ['layout', 'ui', 'feature', 'page', 'form', 'navigation', 'data-display'];
+const COMPLEXITIES = ['simple', 'medium', 'complex'];
+const FRAMEWORKS = ['nextjs', 'react', 'vue', 'svelte'];
+const STYLINGS = ['tailwindcss', 'css-modules', 'styled-components'];
+const INTEGRATIONS = ['auth', 'database', 'payments', 'email', 'storage', 'analytics'];
+const STATUSES = ['active', 'deprecated', 'beta'];
+
+// Fields admins may set when creating or updating a component
+const EDITABLE_FIELDS = [
+  'name',
+  'category',
+  'description',
+  'dependencies',
+  'incompatibleWith',
+  'requiredIntegrations',
+  'complexity',
+  'sampleData',
+  'apiEndpoints',
+  'eslintCompliant',
+  'testCoverage',
+  'tags',
+  'frameworks',
+  'version',
+  'author',
+  'status',
+  'performance',
+  'accessibility',
+];
+
+const VARIANT_FIELDS = ['id', 'name', 'description', 'previewImage', 'styling', 'frameworks', 'code', 'props'];
+
+const pick = (source: Record<string, any>, fields: string[]): Record<string, any> =>
+  Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+// Validators for a variant at `prefix` ('' for a request body that is the variant itself)
+const variantValidators = (prefix: string, partial = false) => {
+  const field = (name: string) => {
+    const chain = body(`${prefix}${name}`);
+    return partial ? chain.optional() : chain;
+  };
+
+  return [
+    ...(partial ? [] : [
+      body(`${prefix}id`)
+        .isString()
+        .matches(/^[a-z0-9][a-z0-9-]*$/)
+        .withMessage('Variant ID must be lowercase letters, numbers and hyphens'),
+    ]),
+    field('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Variant name is required'),
+    field('description').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Variant description is required'),
+    field('previewImage').isString().trim().notEmpty().withMessage('Variant preview image is required'),
+    field('code.component').isString().notEmpty().withMessage('Variant component code is required'),
+    body(`${prefix}styling`).optional().isArray().withMessage('Styling must be an array'),
+    body(`${prefix}styling.*`).isIn(STYLINGS).withMessage('Invalid styling system'),
+    body(`${prefix}frameworks`).optional().isArray().withMessage('Frameworks must be an array'),
+    body(`${prefix}frameworks.*`).isIn(FRAMEWORKS).withMessage('Invalid framework'),
+    body(`${prefix}props`).optional().isArray().withMessage('Props must be an array'),
+    body(`${prefix}props.*.name`).isString().notEmpty().withMessage('Prop name is required'),
+    body(`${prefix}props.*.type`).isString().notEmpty().withMessage('Prop type is required'),
+  ];
+};
+
+const componentValidators = (partial = false) => {
+  const field = (name: string) => {
+    const chain = body(name);
+    return partial ? chain.optional() : chain;
+  };
+
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Component name must be between 1 and 100 characters'),
+    field('category').isIn(CATEGORIES).withMessage('Invalid category'),
+    field('description').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Component description must be between 1 and 500 characters'),
+    field('complexity').isIn(COMPLEXITIES).withMessage('Invalid complexity'),
+    body('dependencies').optional().isArray().withMessage('Dependencies must be an array'),
+    body('dependencies.*').isString().withMessage('Dependencies must be strings'),
+    body('incompatibleWith').optional().isArray().withMessage('Incompatible components must be an array'),
+    body('incompatibleWith.*').isMongoId().withMessage('Invalid incompatible component ID'),
+    body('requiredIntegrations').optional().isArray().withMessage('Required integrations must be an array'),
+    body('requiredIntegrations.*').isIn(INTEGRATIONS).withMessage('Invalid integration category'),
+    body('tags').optional().isArray().withMessage('Tags must be an array'),
+    body('tags.*').isString().withMessage('Tags must be strings'),
+    body('frameworks').optional().isArray().withMessage('Frameworks must be an array'),
+    body('frameworks.*').isIn(FRAMEWORKS).withMessage('Invalid framework'),
+    body('status').optional().isIn(STATUSES).withMessage('Invalid status'),
+    body('testCoverage').optional().isInt({ min: 0, max: 100 }).withMessage('Test coverage must be between 0 and 100'),
+  ];
+};
+
+// @desc    Search components
+// @route   GET /api/components
+// @access  Public
+router.get(
+  '/',
+  [
+    query('q').optional().isString().trim().isLength({ max: 200 }).withMessage('Query cannot exceed 200 characters'),
+    query('category').optional().isIn(CATEGORIES).withMessage('Invalid category'),
+    query('complexity').optional().isIn(COMPLEXITIES).withMessage('Invalid complexity'),
+    query('framework').optional().isIn(FRAMEWORKS).withMessage('Invalid framework'),
+    query('tags').optional().isString().withMessage('Tags must be a comma-separated list'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const search: ComponentSearchRequest = {
+      query: req.query.q as string,
+      category: req.query.category as string,
+      complexity: req.query.complexity as string,
+      framework: req.query.framework as string,
+      tags: req.query.tags ? (req.query.tags as string).split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean) : [],
+      limit: parseInt(req.query.limit as string) || 20,
+    };
+
+    const components = await Component.searchComponents(search.query || '', search)
+      .select('-variants.code')
+      .limit(search.limit!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Components retrieved successfully',
+      data: components,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get popular components
+// @route   GET /api/components/popular
+// @access  Public
+router.get(
+  '/popular',
+  [
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const components = await Component.getPopular(parseInt(req.query.limit as string) || 10);
+
+    res.status(200).json({
+      success: true,
+      message: 'Popular components retrieved successfully',
+      data: components,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Browse components in a category
+// @route   GET /api/components/category/:category
+// @access  Public
+router.get(
+  '/category/:category',
+  [
+    param('category').isIn(CATEGORIES).withMessage('Invalid category'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const components = await Component.findByCategory(req.params.category!, parseInt(req.query.limit as string) || 20)
+      .select('-variants.code');
+
+    res.status(200).json({
+      success: true,
+      message: 'Components retrieved successfully',
+      data: components,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Resolve the dependencies of a set of components and explain any conflicts
+// @route   POST /api/components/resolve
+// @access  Public
+router.post(
+  '/resolve',
+  [
+    body('componentIds').isArray({ min: 1, max: 50 }).withMessage('Provide between 1 and 50 component IDs'),
+    body('componentIds.*').isMongoId().withMessage('Invalid component ID'),
+    body('framework').optional().isIn(FRAMEWORKS).withMessage('Invalid framework'),
+    body('auth').optional().isString().trim().withMessage('Auth provider must be a string'),
+    body('database').optional().isString().trim().withMessage('Database provider must be a string'),
+    body('payments').optional().isString().trim().withMessage('Payments provider must be a string'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { componentIds, framework, auth, database, payments } = req.body;
+
+    const resolution = await resolveDependencies(componentIds, {
+      framework: framework || 'nextjs',
+      language: 'typescript',
+      styling: 'tailwindcss',
+      auth,
+      database,
+      payments,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: resolution.consistent ? 'Components can be combined' : 'Components cannot be combined',
+      data: resolution,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get single component with its variants
+// @route   GET /api/components/:id
+// @access  Public
+router.get(
+  '/:id',
+  [
+    param('id').isMongoId().withMessage('Invalid component ID'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const component = await Component.findById(req.params.id)
+      .populate('incompatibleWith', 'name category');
+
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Component retrieved successfully',
+      data: component,
+    } as ApiResponse);
+  })
+);
+
+// @desc    List a component's published versions with the number of projects using each
+// @route   GET /api/components/:id/versions
+// @access  Public
+router.get(
+  '/:id/versions',
+  [
+    param('id').isMongoId().withMessage('Invalid component ID'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const component = await Component.findById(req.params.id).select('name version status');
+
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    const [versions, usage] = await Promise.all([
+      ComponentVersion.findForComponent(component._id),
+      Project.aggregate<{ _id: string | null; projects: number }>([
+        { $match: { 'components.componentId': component._id } },
+        { $unwind: '$components' },
+        { $match: { 'components.componentId': component._id } },
+        { $group: { _id: '$components.version', projects: { $addToSet: '$_id' } } },
+        { $project: { projects: { $size: '$projects' } } },
+      ]),
+    ]);
+    const projectsByVersion = new Map(usage.map(entry => [entry._id, entry.projects]));
+
+    res.status(200).json({
+      success: true,
+      message: 'Component versions retrieved successfully',
+      data: {
+        component: { _id: component._id, name: component.name, latestVersion: component.version, status: component.status },
+        versions: versions.map(version => ({
+          version: version.version,
+          publishedAt: version.publishedAt,
+          variants: version.variants.map(variant => variant.id),
+          dependencies: version.dependencies,
+          projects: projectsByVersion.get(version.version) || 0,
+        })),
+        // Projects generated before versions were recorded
+        unversionedProjects: projectsByVersion.get(null) || 0,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Create component
+// @route   POST /api/components
+// @access  Private (admin)
+router.post(
+  '/',
+  protect,
+  authorizeRoles('admin'),
+  [
+    ...componentValidators(),
+    body('variants').isArray({ min: 1 }).withMessage('At least one variant is required'),
+    ...variantValidators('variants.*.'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const variants = (req.body.variants as Record<string, any>[]).map(variant => pick(variant, VARIANT_FIELDS));
+    const variantIds = variants.map(variant => variant.id);
+    if (new Set(variantIds).size !== variantIds.length) {
+      throw new AppError('Variant IDs must be unique within a component', 400);
+    }
+
+    const component = await Component.create({
+      ...pick(req.body, EDITABLE_FIELDS),
+      variants,
+    });
+
+    logger.info('Component created', {
+      componentId: component._id.toString(),
+      name: component.name,
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Component created successfully',
+      data: component,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Update component
+// @route   PUT /api/components/:id
+// @access  Private (admin)
+router.put(
+  '/:id',
+  protect,
+  authorizeRoles('admin'),
+  [
+    param('id').isMongoId().withMessage('Invalid component ID'),
+    ...componentValidators(true),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const component = await Component.findById(req.params.id);
+
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    // Variants have their own endpoints so their IDs stay stable
+    component.set(pick(req.body, EDITABLE_FIELDS));
+    await component.save();
+
+    logger.info('Component updated', {
+      componentId: component._id.toString(),
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Component updated successfully',
+      data: component,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Deprecate component so it is no longer selected for new projects
+// @route   POST /api/components/:id/deprecate
+// @access  Private (admin)
+router.post(
+  '/:id/deprecate',
+  protect,
+  authorizeRoles('admin'),
+  [
+    param('id').isMongoId().withMessage('Invalid component ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const component = await Component.findById(req.params.id);
+
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    if (component.status === 'deprecated') {
+      throw new AppError('Component is already deprecated', 400);
+    }
+
+    // Existing projects keep referencing the component, so it is never deleted
+    component.status = 'deprecated';
+    await component.save();
+
+    logger.info('Component deprecated', {
+      componentId: component._id.toString(),
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Component deprecated successfully',
+      data: component,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Add a variant to a component
+// @route   POST /api/components/:id/variants
+// @access  Private (admin)
+router.post(
+  '/:id/variants',
+  protect,
+  authorizeRoles('admin'),
+  [
+    param('id').isMongoId().withMessage('Invalid component ID'),
+    ...variantValidators(''),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const component = await Component.findById(req.params.id);
+
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    if (component.variants.some(variant => variant.id === req.body.id)) {
+      throw new AppError('A variant with this ID already exists', 409);
+    }
+
+    await component.addVariant(pick(req.body, VARIANT_FIELDS) as IComponentVariant);
+
+    logger.info('Component variant added', {
+      componentId: component._id.toString(),
+      variantId: req.body.id,
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Variant added successfully',
+      data: component.variants.find(variant => variant.id === req.body.id),
+    } as ApiResponse);
+  })
+);
+
+// @desc    Update a component variant
+// @route   PUT /api/components/:id/variants/:variantId
+// @access  Private (admin)
+router.put(
+  '/:id/variants/:variantId',
+  protect,
+  authorizeRoles('admin'),
+  [
+    param('id').isMongoId().withMessage('Invalid component ID'),
+    param('variantId').isString().notEmpty().withMessage('Invalid variant ID'),
+    ...variantValidators('', true),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { variantId } = req.params;
+    const component = await Component.findById(req.params.id);
+
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    if (!component.variants.some(variant => variant.id === variantId)) {
+      throw new AppError('Variant not found', 404);
+    }
+
+    // The variant ID is referenced by projects and cannot be changed
+    const updates = pick(req.body, VARIANT_FIELDS.filter(field => field !== 'id'));
+    await component.updateVariant(variantId!, updates);
+
+    logger.info('Component variant updated', {
+      componentId: component._id.toString(),
+      variantId,
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Variant updated successfully',
+      data: component.variants.find(variant => variant.id === variantId),
+    } as ApiResponse);
+  })
+);
+
+export default router;
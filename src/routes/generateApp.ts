@@ -1,20 +1,24 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import { AuthenticatedRequest, GenerateAppRequest, ApiResponse } from '../types';
+import { body, param, validationResult } from 'express-validator';
+import { AuthenticatedRequest, GenerateAppRequest, ApiResponse, GenerationEventType, IGenerationEvent } from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AppError } from '../middleware/errorHandler';
-import { protect } from '../middleware/auth';
+import { acceptQueryToken, protect } from '../middleware/auth';
 import Project from '../models/Project';
 import Chat from '../models/Chat';
+import GenerationJob from '../models/GenerationJob';
+import GenerationEvent from '../models/GenerationEvent';
 import logger from '../utils/logger';
-
-// Import services (to be created)
-// import { analyzeRequirements } from '../services/aiService';
-// import { selectComponents } from '../services/componentService';
-// import { generateProject } from '../services/codeGeneratorService';
+import { finalizeJob, remainingSteps, STEP_STATUS } from '../services/generationPipeline';
+import { getFrameworkAdapter } from '../services/codeGeneratorService';
 
 const router = express.Router();
 
+// Events that end a generation stream
+const TERMINAL_EVENTS: GenerationEventType[] = ['complete', 'error', 'cancelled'];
+const SSE_POLL_INTERVAL_MS = parseInt(process.env.SSE_POLL_INTERVAL_MS || '1000');
+const SSE_KEEPALIVE_MS = 15000;
+
 // @desc    Generate a new application
 // @route   POST /api/generate-app
 // @access  Private
@@ -28,7 +32,7 @@ router.post(
       .withMessage('User input must be between 10 and 2000 characters'),
     body('preferences.framework')
       .optional()
-      .isIn(['nextjs', 'react', 'vue'])
+      .isIn(['nextjs', 'react', 'vue', 'svelte'])
       .withMessage('Invalid framework'),
     body('preferences.auth')
       .optional()
@@ -42,6 +46,10 @@ router.post(
       .optional()
       .isIn(['stripe', 'paypal', 'none'])
       .withMessage('Invalid payments option'),
+    body('preferences.styling')
+      .optional()
+      .isIn(['tailwindcss', 'css-modules', 'styled-components'])
+      .withMessage('Invalid styling option'),
   ],
   asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
     // Check for validation errors
@@ -53,6 +61,12 @@ router.post(
     const { userInput, preferences = {} }: GenerateAppRequest = req.body;
     const userId = req.user!._id;
 
+    // Not every styling system works with every framework (e.g. styled-components needs React)
+    const adapter = getFrameworkAdapter(preferences.framework);
+    if (preferences.styling && !adapter.stylings.includes(preferences.styling)) {
+      throw new AppError(`${preferences.styling} is not supported for ${adapter.label} projects`, 400);
+    }
+
     logger.info('Starting app generation', { 
       userId: userId.toString(), 
       inputLength: userInput.length,
@@ -82,9 +96,10 @@ router.post(
         techStack: {
           framework: preferences.framework || 'nextjs',
           language: 'typescript',
-          styling: 'tailwindcss',
+          styling: preferences.styling || 'tailwindcss',
           database: preferences.database || 'prisma',
           auth: preferences.auth || 'nextauth',
+          payments: preferences.payments || 'none',
         },
         stats: {
           totalFiles: 0,
@@ -133,25 +148,15 @@ router.post(
         },
       });
 
-      // Start async generation process
-      generateApplicationAsync(project._id.toString(), userInput, preferences, chat._id.toString())
-        .catch(error => {
-          logger.error('Async generation failed', { 
-            projectId: project._id.toString(), 
-            error: error.message 
-          });
-          // Mark project as error
-          Project.findByIdAndUpdate(project._id, {
-            status: 'error',
-            error: {
-              message: error.message,
-              stack: error.stack,
-              timestamp: new Date(),
-            },
-          }).catch(updateError => {
-            logger.error('Failed to update project error status', { updateError });
-          });
-        });
+      // Queue generation; a worker process picks it up and runs the pipeline
+      const job = await GenerationJob.enqueue({
+        projectId: project._id,
+        chatId: chat._id,
+        userId,
+        userInput,
+        preferences,
+        startEventSeq: project.eventSeq,
+      });
 
       // Respond immediately with project info
       res.status(201).json({
@@ -163,6 +168,8 @@ router.post(
           status: project.status,
           progress: project.progress,
           currentStep: project.currentStep,
+          // Open the event stream after this sequence number
+          eventSeq: job.startEventSeq,
           estimatedTime: 30, // seconds
         },
       } as ApiResponse);
@@ -207,165 +214,249 @@ router.get(
         error: project.error,
         qualityScore: project.qualityScore,
         stats: project.stats,
+        attempts: project.generationAttempts,
       },
     } as ApiResponse);
   })
 );
 
-// Async function to handle the generation process
-async function generateApplicationAsync(
-  projectId: string, 
-  userInput: string, 
-  preferences: any,
-  chatId: string
-): Promise<void> {
-  
-  try {
-    const project = await Project.findById(projectId);
-    const chat = await Chat.findById(chatId);
-    
-    if (!project || !chat) {
-      throw new Error('Project or chat not found');
+// @desc    Cancel an in-flight generation
+// @route   POST /api/generate-app/:projectId/cancel
+// @access  Private
+router.post(
+  '/:projectId/cancel',
+  protect,
+  [
+    param('projectId').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
     }
 
-    // Step 1: Analyze requirements (10-20%)
-    await project.updateProgress(10, 'Analyzing requirements...');
-    await chat.updateContext({
-      generationState: { step: 'analyzing', progress: 10, errors: [] }
-    });
+    const { projectId } = req.params;
+    const userId = req.user!._id;
 
-    // Analyze requirements using AI service
-    
-    // Mock requirements analysis for now
-    const requirements = {
-      features: ['dashboard', 'authentication', 'user management'],
-      entities: ['users', 'projects', 'settings'],
-      integrations: ['auth', 'database'],
-      complexity: 'medium' as const,
-      estimatedComponents: 8,
-    };
+    const project = await Project.findOne({ _id: projectId, userId }).select('status');
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
 
-    // Update project with requirements
-    project.requirements = requirements;
-    project.name = generateProjectName(userInput);
-    await project.save();
+    const job = await GenerationJob.findActiveForProject(projectId!);
+    if (!job) {
+      throw new AppError(`Project is not being generated (status: ${project.status})`, 400);
+    }
 
-    await project.updateProgress(25, 'Selecting optimal components...');
-    await chat.addMessage({
-      role: 'assistant',
-      content: `I've analyzed your requirements and identified the following features: ${requirements.features.join(', ')}. Now selecting the best components...`,
-      metadata: { tokens: 50 }
-    });
+    await GenerationJob.updateOne({ _id: job._id }, { $set: { cancelRequestedAt: new Date() } });
+
+    // A job no worker has claimed yet can be cancelled right away; a running job
+    // stops before its next pipeline step.
+    const unclaimed = await GenerationJob.findOneAndUpdate(
+      { _id: job._id, status: 'queued' },
+      { $set: { status: 'cancelled', completedAt: new Date() } },
+      { new: true }
+    );
+    if (unclaimed) {
+      await finalizeJob(unclaimed, 'cancelled');
+    }
 
-    // Step 2: Select components (25-50%)
-    // Select optimal components based on requirements
+    logger.info('Generation cancellation requested', {
+      projectId,
+      jobId: job._id.toString(),
+      immediate: !!unclaimed,
+    });
 
-    // Mock component selection for now  
-    const mongoose = require('mongoose');
-    const mockComponents = [
-      {
-        componentId: new mongoose.Types.ObjectId('64f8b1a2e1234567890abcde'), // Mock ObjectId
-        variantId: 'modern-auth',
-        customizations: {},
+    res.status(202).json({
+      success: true,
+      message: unclaimed ? 'Generation cancelled' : 'Cancellation requested; generation will stop after the current step',
+      data: {
+        projectId,
+        status: unclaimed ? 'cancelled' : project.status,
       },
-    ];
+    } as ApiResponse);
+  })
+);
+
+// @desc    Retry a failed or cancelled generation from the step where it stopped
+// @route   POST /api/generate-app/:projectId/retry
+// @access  Private
+router.post(
+  '/:projectId/retry',
+  protect,
+  [
+    param('projectId').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
 
-    project.components = mockComponents;
-    await project.save();
+    const { projectId } = req.params;
+    const userId = req.user!._id;
+
+    const project = await Project.findOne({ _id: projectId, userId });
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    if (!['error', 'cancelled'].includes(project.status)) {
+      throw new AppError('Only failed or cancelled generations can be retried', 400);
+    }
 
-    await project.updateProgress(60, 'Generating application code...');
-    await chat.addMessage({
-      role: 'assistant',
-      content: `Selected ${mockComponents.length} components. Now generating your application code...`,
-      metadata: { tokens: 30 }
+    if (await GenerationJob.findActiveForProject(projectId!)) {
+      throw new AppError('Generation is already in progress', 409);
+    }
+
+    const previous = await GenerationJob.findOne({ projectId }).sort({ createdAt: -1 });
+    if (!previous) {
+      throw new AppError('No previous generation found for this project', 400);
+    }
+
+    // Keep the already computed requirements and components by resuming after
+    // the last step the previous job completed
+    const job = await GenerationJob.enqueue({
+      projectId: project._id,
+      chatId: previous.chatId,
+      userId,
+      userInput: previous.userInput,
+      preferences: previous.preferences,
+      lastCompletedStep: previous.lastCompletedStep,
+      state: previous.state,
+      // The previous job's terminal event is still stored; the new attempt starts after it
+      startEventSeq: project.eventSeq,
     });
 
-    // Step 3: Generate code (50-90%)
-    // Generate application code
-
-    // Mock file generation for now
-    const mockFiles = [
-      {
-        path: 'package.json',
-        content: JSON.stringify({
-          name: project.name.toLowerCase().replace(/\s+/g, '-'),
-          version: '1.0.0',
-          private: true,
-          scripts: {
-            dev: 'next dev',
-            build: 'next build',
-            start: 'next start',
-          },
-          dependencies: {
-            'next': '^14.0.0',
-            'react': '^18.2.0',
-            'react-dom': '^18.2.0',
-            'typescript': '^5.0.0',
-          },
-        }, null, 2),
-        type: 'file' as const,
-      },
-      {
-        path: 'src/app/page.tsx',
-        content: `export default function HomePage() {
-  return (
-    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-      <div className="text-center">
-        <h1 className="text-4xl font-bold text-gray-900 mb-4">
-          Welcome to ${project.name}
-        </h1>
-        <p className="text-gray-600">
-          Your AI-generated application is ready!
-        </p>
-      </div>
-    </div>
-  );
-}`,
-        type: 'file' as const,
-      },
-    ];
-
-    project.files = mockFiles;
-    project.qualityScore = 85;
-    await project.save();
-
-    await project.updateProgress(95, 'Running final quality checks...');
-    
-    // Step 4: Quality checks (90-100%)
-    await new Promise(resolve => setTimeout(resolve, 2000)); // Simulate processing
-
-    // Mark as complete
-    await project.markComplete();
-    await chat.markCompleted();
-    await chat.addMessage({
-      role: 'assistant',
-      content: `🎉 Your application "${project.name}" has been generated successfully! Quality score: ${project.qualityScore}/100. You can now download and run your project.`,
-      metadata: { tokens: 40 }
+    const nextStep = remainingSteps(job)[0] || 'quality';
+    project.status = STEP_STATUS[nextStep];
+    project.error = undefined;
+    await project.updateProgress(project.progress, `Retrying from ${nextStep} step...`);
+
+    logger.info('Generation retry queued', {
+      projectId,
+      jobId: job._id.toString(),
+      resumeFrom: nextStep,
+      previousAttempts: project.generationAttempts.length,
     });
 
-    logger.info('App generation completed successfully', { 
-      projectId, 
-      qualityScore: project.qualityScore,
-      filesGenerated: project.files.length 
+    res.status(202).json({
+      success: true,
+      message: 'Generation retry started',
+      data: {
+        projectId: project._id,
+        status: project.status,
+        progress: project.progress,
+        currentStep: project.currentStep,
+        resumeFrom: nextStep,
+        // Open the event stream after this sequence number
+        eventSeq: job.startEventSeq,
+        attempts: project.generationAttempts,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Stream generation progress (Server-Sent Events)
+// @route   GET /api/generate-app/:projectId/events
+// @access  Private (EventSource clients may pass ?access_token=)
+router.get(
+  '/:projectId/events',
+  acceptQueryToken,
+  protect,
+  [
+    param('projectId').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { projectId } = req.params;
+    const userId = req.user!._id;
+
+    const project = await Project.findOne({ _id: projectId, userId })
+      .select('status progress currentStep qualityScore stats error eventSeq');
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    // Resume after the last event the client saw (header set by EventSource on reconnect).
+    // New streams start with the latest job, skipping the events of failed or cancelled
+    // attempts before a retry.
+    const resumeFrom = req.get('Last-Event-ID') || (req.query.lastEventId as string);
+    let lastSeq: number;
+    if (resumeFrom !== undefined) {
+      lastSeq = Math.max(0, parseInt(resumeFrom) || 0);
+    } else {
+      const latestJob = await GenerationJob.findOne({ projectId }).sort({ createdAt: -1 }).select('startEventSeq');
+      lastSeq = latestJob?.startEventSeq || 0;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering
     });
+    res.write(`retry: ${SSE_POLL_INTERVAL_MS * 3}\n\n`);
+
+    let closed = false;
+    let polling = false;
+
+    const send = (id: number, type: string, data: any): void => {
+      res.write(`id: ${id}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
 
-  } catch (error) {
-    logger.error('Generation process failed', { projectId, error });
-    throw error;
-  }
-}
-
-// Helper function to generate project name from user input
-function generateProjectName(userInput: string): string {
-  const words = userInput.split(' ').filter(word => word.length > 2);
-  if (words.length === 0) return 'Generated App';
-  
-  // Take first 3 meaningful words and capitalize them
-  const nameWords = words.slice(0, 3).map(word => 
-    word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-  );
-  
-  return nameWords.join(' ') + ' App';
-}
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      clearInterval(poller);
+      clearInterval(keepAlive);
+      res.end();
+    };
+
+    // Send events recorded since the last poll; resolves true once the stream has ended
+    const flush = async (): Promise<boolean> => {
+      if (polling || closed) return closed;
+      polling = true;
+      try {
+        const events: IGenerationEvent[] = await GenerationEvent.findAfter(projectId!, lastSeq);
+        for (const event of events) {
+          send(event.seq, event.type, event.data);
+          lastSeq = event.seq;
+          if (TERMINAL_EVENTS.includes(event.type)) {
+            close();
+            break;
+          }
+        }
+      } catch (error) {
+        logger.error('Failed to stream generation events', { projectId, error });
+        close();
+      } finally {
+        polling = false;
+      }
+      return closed;
+    };
+
+    const poller = setInterval(() => { flush(); }, SSE_POLL_INTERVAL_MS);
+    const keepAlive = setInterval(() => {
+      if (!closed) res.write(': keep-alive\n\n');
+    }, SSE_KEEPALIVE_MS);
+    req.on('close', close);
+
+    const ended = await flush();
+
+    // Generation already finished but its events have expired: report the final state
+    if (!ended && ['complete', 'error', 'cancelled'].includes(project.status)) {
+      send(Math.max(lastSeq, project.eventSeq), project.status, project.status === 'complete'
+        ? { status: project.status, qualityScore: project.qualityScore, stats: project.stats }
+        : { status: project.status, message: project.error?.message, progress: project.progress });
+      close();
+    }
+  })
+);
 
 export default router;
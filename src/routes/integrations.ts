@@ -0,0 +1,405 @@
+import express from 'express';
+import { query, param, body, validationResult } from 'express-validator';
+import { AuthenticatedRequest, ApiResponse, IntegrationRatingRequest, IntegrationSearchRequest } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../middleware/errorHandler';
+import { protect, authorizeRoles, requireEmailVerification } from '../middleware/auth';
+import Integration from '../models/Integration';
+import IntegrationRating from '../models/IntegrationRating';
+import Project from '../models/Project';
+import { checkSchema } from '../utils/jsonSchema';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+const CATEGORIES = ['auth', 'database', 'payments', 'email', 'storage', 'analytics', 'ui', 'api'];
+const COMPLEXITIES = ['simple', 'medium', 'complex'];
+const FRAMEWORKS = ['nextjs', 'react', 'vue', 'svelte'];
+const STATUSES = ['active', 'beta', 'deprecated', 'coming-soon'];
+
+// Fields admins may set when creating or updating an integration
+const EDITABLE_FIELDS = [
+  'name',
+  'slug',
+  'description',
+  'category',
+  'provider',
+  'logo',
+  'dependencies',
+  'envVars',
+  'files',
+  'setupInstructions',
+  'configSchema',
+  'tags',
+  'compatibility',
+  'pricing',
+  'documentation',
+  'status',
+  'complexity',
+  'testEndpoint',
+  'testInstructions',
+  'version',
+  'author',
+  'featured',
+];
+
+// Catalog listings leave out file templates and schemas
+const LISTING_FIELDS = '-files -configSchema -setupInstructions';
+
+const pick = (source: Record<string, any>, fields: string[]): Record<string, any> =>
+  Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+const integrationValidators = (partial = false) => {
+  const field = (name: string) => {
+    const chain = body(name);
+    return partial ? chain.optional() : chain;
+  };
+
+  return [
+    field('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Integration name must be between 1 and 100 characters'),
+    body('slug').optional().matches(/^[a-z0-9-]+$/).withMessage('Slug must contain only lowercase letters, numbers, and hyphens'),
+    field('description').isString().trim().isLength({ min: 1, max: 500 }).withMessage('Integration description must be between 1 and 500 characters'),
+    field('category').isIn(CATEGORIES).withMessage('Invalid category'),
+    field('provider').isString().trim().notEmpty().withMessage('Integration provider is required'),
+    field('logo').isString().trim().notEmpty().withMessage('Integration logo is required'),
+    field('setupInstructions').isString().notEmpty().withMessage('Setup instructions are required'),
+    field('complexity').isIn(COMPLEXITIES).withMessage('Invalid complexity'),
+    body('status').optional().isIn(STATUSES).withMessage('Invalid status'),
+    body('dependencies').optional().isArray().withMessage('Dependencies must be an array'),
+    body('dependencies.*.name').isString().notEmpty().withMessage('Dependency name is required'),
+    body('dependencies.*.version').isString().notEmpty().withMessage('Dependency version is required'),
+    body('dependencies.*.type').optional().isIn(['dependencies', 'devDependencies']).withMessage('Invalid dependency type'),
+    body('envVars').optional().isArray().withMessage('Environment variables must be an array'),
+    body('envVars.*.name').matches(/^[A-Za-z_][A-Za-z0-9_]*$/).withMessage('Invalid environment variable name'),
+    body('files').optional().isArray().withMessage('Files must be an array'),
+    body('files.*.path').isString().notEmpty().withMessage('File path is required'),
+    body('files.*.content').isString().withMessage('File content is required'),
+    body('files.*.operation').optional().isIn(['create', 'update', 'append']).withMessage('Invalid file operation'),
+    body('configSchema').optional({ values: 'null' }).isObject().withMessage('Config schema must be an object'),
+    body('compatibility.frameworks').optional().isArray().withMessage('Frameworks must be an array'),
+    body('compatibility.frameworks.*').isIn(FRAMEWORKS).withMessage('Invalid framework'),
+    body('tags').optional().isArray().withMessage('Tags must be an array'),
+    body('tags.*').isString().withMessage('Tags must be strings'),
+    body('featured').optional().isBoolean().withMessage('Featured must be a boolean'),
+  ];
+};
+
+// Report schema mistakes as a validation error rather than a failed save
+const assertValidConfigSchema = (configSchema: unknown): void => {
+  if (!configSchema) return;
+
+  const problems = checkSchema(configSchema);
+  if (problems.length > 0) {
+    throw new AppError('Invalid configSchema', 400, problems);
+  }
+};
+
+// @desc    Search integrations
+// @route   GET /api/integrations
+// @access  Public
+router.get(
+  '/',
+  [
+    query('q').optional().isString().trim().isLength({ max: 200 }).withMessage('Query cannot exceed 200 characters'),
+    query('category').optional().isIn(CATEGORIES).withMessage('Invalid category'),
+    query('complexity').optional().isIn(COMPLEXITIES).withMessage('Invalid complexity'),
+    query('free').optional().isBoolean().withMessage('Free must be a boolean'),
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const search: IntegrationSearchRequest = {
+      query: req.query.q as string,
+      category: req.query.category as string,
+      complexity: req.query.complexity as string,
+      free: req.query.free !== undefined ? req.query.free === 'true' : undefined,
+      limit: parseInt(req.query.limit as string) || 20,
+    };
+
+    const integrations = await Integration.searchIntegrations(search.query || '', search)
+      .select(LISTING_FIELDS)
+      .limit(search.limit!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Integrations retrieved successfully',
+      data: integrations,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get featured integrations
+// @route   GET /api/integrations/featured
+// @access  Public
+router.get(
+  '/featured',
+  [
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const integrations = await Integration.getFeatured(parseInt(req.query.limit as string) || 6);
+
+    res.status(200).json({
+      success: true,
+      message: 'Featured integrations retrieved successfully',
+      data: integrations,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get popular integrations
+// @route   GET /api/integrations/popular
+// @access  Public
+router.get(
+  '/popular',
+  [
+    query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const integrations = await Integration.getPopular(parseInt(req.query.limit as string) || 10);
+
+    res.status(200).json({
+      success: true,
+      message: 'Popular integrations retrieved successfully',
+      data: integrations,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get integrations compatible with a framework
+// @route   GET /api/integrations/compatible/:framework
+// @access  Public
+router.get(
+  '/compatible/:framework',
+  [
+    param('framework').isIn(FRAMEWORKS).withMessage('Invalid framework'),
+    query('complexity').optional().isIn(COMPLEXITIES).withMessage('Invalid complexity'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const integrations = await Integration.findCompatible(req.params.framework!, req.query.complexity as string)
+      .select(LISTING_FIELDS);
+
+    res.status(200).json({
+      success: true,
+      message: 'Compatible integrations retrieved successfully',
+      data: integrations,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get single integration
+// @route   GET /api/integrations/:slug
+// @access  Public
+router.get(
+  '/:slug',
+  [
+    param('slug').isSlug().withMessage('Invalid integration slug'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const integration = await Integration.findOne({ slug: req.params.slug });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Integration retrieved successfully',
+      data: integration,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Rate an integration (one rating per user; rating again replaces it)
+// @route   POST /api/integrations/:slug/ratings
+// @access  Private
+router.post(
+  '/:slug/ratings',
+  protect,
+  requireEmailVerification,
+  [
+    param('slug').isSlug().withMessage('Invalid integration slug'),
+    body('rating').isInt({ min: 1, max: 5 }).withMessage('Rating must be an integer between 1 and 5'),
+    body('review').optional().isString().trim().isLength({ max: 1000 }).withMessage('Review cannot exceed 1000 characters'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { rating, review }: IntegrationRatingRequest = req.body;
+    const userId = req.user!._id;
+
+    const integration = await Integration.findOne({ slug: req.params.slug, status: { $ne: 'coming-soon' } });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    const result = await IntegrationRating.rate(integration._id, userId, Number(rating), review);
+    await integration.refreshRating();
+
+    logger.info('Integration rated', {
+      integration: integration.slug,
+      userId: userId.toString(),
+      rating: Number(rating),
+      created: result.created,
+    });
+
+    res.status(result.created ? 201 : 200).json({
+      success: true,
+      message: result.created ? 'Rating added successfully' : 'Rating updated successfully',
+      data: {
+        rating: result.rating,
+        summary: integration.rating,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Create integration
+// @route   POST /api/integrations
+// @access  Private (admin)
+router.post(
+  '/',
+  protect,
+  authorizeRoles('admin'),
+  integrationValidators(),
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    assertValidConfigSchema(req.body.configSchema);
+
+    const integration = await Integration.create(pick(req.body, EDITABLE_FIELDS));
+
+    logger.info('Integration created', {
+      integration: integration.slug,
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Integration created successfully',
+      data: integration,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Update integration
+// @route   PUT /api/integrations/:slug
+// @access  Private (admin)
+router.put(
+  '/:slug',
+  protect,
+  authorizeRoles('admin'),
+  [
+    param('slug').isSlug().withMessage('Invalid integration slug'),
+    ...integrationValidators(true),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const integration = await Integration.findOne({ slug: req.params.slug });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    // Projects reference integrations by slug
+    if (req.body.slug && req.body.slug !== integration.slug) {
+      throw new AppError('Integration slug cannot be changed', 400);
+    }
+
+    assertValidConfigSchema(req.body.configSchema);
+
+    integration.set(pick(req.body, EDITABLE_FIELDS));
+    await integration.save();
+
+    logger.info('Integration updated', {
+      integration: integration.slug,
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Integration updated successfully',
+      data: integration,
+    } as ApiResponse);
+  })
+);
+
+// @desc    Delete integration
+// @route   DELETE /api/integrations/:slug
+// @access  Private (admin)
+router.delete(
+  '/:slug',
+  protect,
+  authorizeRoles('admin'),
+  [
+    param('slug').isSlug().withMessage('Invalid integration slug'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const integration = await Integration.findOne({ slug: req.params.slug });
+
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    if (await Project.exists({ integrations: integration.slug })) {
+      throw new AppError('Integration is used by existing projects; set its status to deprecated instead', 409);
+    }
+
+    await Promise.all([
+      IntegrationRating.deleteMany({ integrationId: integration._id }),
+      integration.deleteOne(),
+    ]);
+
+    logger.info('Integration deleted', {
+      integration: integration.slug,
+      userId: req.user!._id.toString(),
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Integration deleted successfully',
+    } as ApiResponse);
+  })
+);
+
+export default router;
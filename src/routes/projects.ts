@@ -1,20 +1,64 @@
 import express from 'express';
+import { Types } from 'mongoose';
 import { query, param, body, validationResult } from 'express-validator';
-import { AuthenticatedRequest, ApiResponse, PaginatedResponse, ProjectFilters } from '../types';
+import {
+  AuthenticatedRequest,
+  ApiResponse,
+  FileChange,
+  FileEditRecord,
+  FrameworkTarget,
+  GeneratedFile,
+  IProject,
+  PaginatedResponse,
+  ProjectFile,
+  ProjectFilters,
+} from '../types';
 import { asyncHandler } from '../middleware/errorHandler';
 import { AppError } from '../middleware/errorHandler';
 import { protect } from '../middleware/auth';
+import { createFileUploadValidator } from '../middleware/security';
 import Project from '../models/Project';
 import Chat from '../models/Chat';
 import User from '../models/User';
+import GenerationJob from '../models/GenerationJob';
+import ProjectRevision from '../models/ProjectRevision';
+import Integration from '../models/Integration';
+import Component from '../models/Component';
+import ComponentVersion from '../models/ComponentVersion';
+import { refreshQualityReport } from '../services/qualityService';
+import { loadFiles, loadFileContent, setProjectFiles } from '../services/fileStoreService';
+import { applyIntegration } from '../services/integrationService';
+import { findOutdatedComponents, upgradeComponent } from '../services/componentVersionService';
+import { ExtractedArchive, extractZip, IMPORT_LIMITS, inferTechStack, ZipImportError } from '../services/projectImportService';
+import { forkProject } from '../services/projectForkService';
+import { searchProjects } from '../services/projectSearchService';
+import { writeProjectArchive } from '../services/projectArchiveService';
+import { applyFileChanges, buildFileTree, diffFiles, hashContent, normalizeProjectPath } from '../utils/projectFiles';
 import logger from '../utils/logger';
-import archiver from 'archiver';
+import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs';
 
 const router = express.Router();
 
+// Archives are extracted in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: IMPORT_LIMITS.maxArchiveSize, files: 1 },
+});
+
+// Settings accepted when creating or updating a share link
+const shareSettingsValidators = [
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Expiry must be an ISO 8601 date')
+    .custom(value => new Date(value) > new Date())
+    .withMessage('Expiry must be in the future'),
+  body('allowDownload').optional().isBoolean().withMessage('Allow download must be a boolean'),
+];
+
 // @desc    Get user's projects
 // @route   GET /api/projects
 // @access  Private
@@ -24,7 +68,7 @@ router.get(
   [
     query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
     query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
-    query('status').optional().isIn(['analyzing', 'selecting', 'generating', 'complete', 'error']).withMessage('Invalid status'),
+    query('status').optional().isIn(['analyzing', 'selecting', 'generating', 'complete', 'error', 'cancelled']).withMessage('Invalid status'),
     query('complexity').optional().isIn(['simple', 'medium', 'complex']).withMessage('Invalid complexity'),
     query('sort').optional().isIn(['createdAt', 'updatedAt', 'name', 'qualityScore']).withMessage('Invalid sort field'),
     query('order').optional().isIn(['asc', 'desc']).withMessage('Order must be asc or desc'),
@@ -82,6 +126,178 @@ router.get(
   })
 );
 
+// @desc    Search the user's projects by name, description, requirements and file contents
+// @route   GET /api/projects/search
+// @access  Private
+router.get(
+  '/search',
+  protect,
+  [
+    query('q').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Query must be between 1 and 200 characters'),
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+
+    const { results, total, truncated } = await searchProjects(req.user!._id, req.query.q as string, { page, limit });
+
+    res.status(200).json({
+      success: true,
+      message: 'Search results retrieved successfully',
+      data: results,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+      // Too many files to search them all; the oldest projects' contents were skipped
+      truncated,
+    } as PaginatedResponse<typeof results[0]> & { truncated: boolean });
+  })
+);
+
+// @desc    Import an existing codebase from a ZIP archive as a completed project
+// @route   POST /api/projects/import
+// @access  Private
+router.post(
+  '/import',
+  protect,
+  upload.single('archive'),
+  createFileUploadValidator({ maxSize: IMPORT_LIMITS.maxArchiveSize }),
+  [
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+    body('description').optional().isString().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+    body('framework').optional().isIn(['nextjs', 'react', 'vue', 'svelte']).withMessage('Invalid framework'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const userId = req.user!._id;
+    const archive = req.file;
+
+    if (!archive) {
+      throw new AppError('A ZIP archive is required in the "archive" field', 400);
+    }
+
+    if (path.extname(archive.originalname).toLowerCase() !== '.zip') {
+      throw new AppError('Only ZIP archives can be imported', 400);
+    }
+
+    let extracted: ExtractedArchive;
+    try {
+      extracted = await extractZip(archive.buffer);
+    } catch (error) {
+      if (error instanceof ZipImportError) {
+        logger.warn('Rejected project archive', { userId: userId.toString(), filename: archive.originalname, reason: error.message });
+        throw new AppError(error.message, 400, error.path ? { path: error.path } : undefined);
+      }
+      throw error;
+    }
+
+    const { files, skipped } = extracted;
+    if (files.length === 0) {
+      throw new AppError('Archive contains no importable files', 400);
+    }
+
+    const manifest = files.find(file => file.path === 'package.json');
+    let packageJson: Record<string, any> | null = null;
+    if (manifest) {
+      try {
+        packageJson = JSON.parse(manifest.content);
+      } catch {
+        throw new AppError('package.json is not valid JSON', 400);
+      }
+    }
+
+    const inferred = inferTechStack(packageJson, files);
+    const framework = req.body.framework || inferred.framework;
+    if (!framework) {
+      throw new AppError('Could not detect a supported framework; specify one with the "framework" field', 400);
+    }
+
+    const name = (req.body.name || packageJson?.name || path.basename(archive.originalname, path.extname(archive.originalname)))
+      .toString()
+      .slice(0, 100);
+
+    const project = new Project({
+      name,
+      description: req.body.description,
+      userId,
+      status: 'complete',
+      progress: 100,
+      currentStep: 'Complete',
+      userInput: `Imported from ${archive.originalname}`.slice(0, 2000),
+      requirements: {
+        features: [],
+        entities: [],
+        integrations: [],
+        complexity: 'simple',
+        estimatedComponents: 0,
+      },
+      components: [],
+      integrations: [],
+      techStack: { ...inferred, framework },
+      isPublic: false,
+    });
+
+    await setProjectFiles(project, files);
+    project.packageJson = packageJson;
+    await project.save();
+    await ProjectRevision.snapshot(project, { source: 'import', summary: `Imported from ${archive.originalname}` });
+
+    // Imported projects are refined through chat like generated ones
+    const chat = await Chat.create({
+      userId,
+      projectId: project._id,
+      title: name,
+      messages: [{
+        id: new Date().getTime().toString(),
+        role: 'assistant',
+        content: `Imported ${files.length} file(s) from ${archive.originalname}. Describe a change to start refining your project.`,
+        timestamp: new Date(),
+        metadata: {},
+        attachments: [],
+      }],
+      status: 'completed',
+    });
+
+    logger.info('Project imported', {
+      projectId: project._id.toString(),
+      userId: userId.toString(),
+      filename: archive.originalname,
+      files: files.length,
+      skipped: skipped.length,
+      framework,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Project imported successfully',
+      data: {
+        projectId: project._id,
+        chatId: chat._id,
+        name: project.name,
+        techStack: project.techStack,
+        stats: project.stats,
+        skipped,
+      },
+    } as ApiResponse);
+
+    scoreImportedProject(project, files);
+  })
+);
+
 // @desc    Get single project
 // @route   GET /api/projects/:id
 // @access  Private
@@ -136,7 +352,13 @@ router.put(
 
     const { id } = req.params;
     const userId = req.user!._id;
-    const updates = req.body;
+    // Only the fields validated above; files, revisions, share links and counters have
+    // their own endpoints
+    const updates = Object.fromEntries(
+      (['name', 'description', 'isPublic'] as const)
+        .filter(field => req.body[field] !== undefined)
+        .map(field => [field, req.body[field]])
+    );
 
     const project = await Project.findOneAndUpdate(
       { _id: id, userId },
@@ -180,8 +402,9 @@ router.delete(
       throw new AppError('Project not found', 404);
     }
 
-    // Also delete associated chats
+    // Also delete associated chats and revision history
     await Chat.deleteMany({ projectId: id });
+    await ProjectRevision.deleteMany({ projectId: id });
 
     logger.info('Project deleted', { projectId: id, userId: userId.toString() });
 
@@ -227,58 +450,7 @@ router.get(
     res.setHeader('Content-Type', 'application/zip');
     res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
 
-    // Create ZIP archive
-    const archive = archiver('zip', {
-      zlib: { level: 9 } // Maximum compression
-    });
-
-    // Pipe archive data to response
-    archive.pipe(res);
-
-    // Add files to archive
-    project.files.forEach(file => {
-      if (file.type === 'file') {
-        archive.append(file.content, { name: file.path });
-      }
-    });
-
-    // Add README with setup instructions
-    const readme = `# ${project.name}
-
-Generated with AI App Builder
-
-## Setup Instructions
-
-1. Install dependencies:
-\`\`\`bash
-npm install
-\`\`\`
-
-2. Start development server:
-\`\`\`bash
-npm run dev
-\`\`\`
-
-3. Open your browser to http://localhost:3000
-
-## Project Details
-
-- **Quality Score**: ${project.qualityScore}/100
-- **Total Files**: ${project.stats.totalFiles}
-- **Lines of Code**: ${project.stats.linesOfCode}
-- **Generated**: ${new Date(project.createdAt).toLocaleDateString()}
-
-## Tech Stack
-
-${Object.entries(project.techStack).map(([key, value]) => `- **${key}**: ${value}`).join('\n')}
-
-Enjoy your new application! 🎉
-`;
-
-    archive.append(readme, { name: 'README.md' });
-
-    // Finalize archive
-    await archive.finalize();
+    await writeProjectArchive(project, res);
 
     logger.info('Project downloaded', { 
       projectId: id, 
@@ -317,15 +489,25 @@ router.get(
 
     // If specific file requested
     if (filePath) {
-      const file = project.files.find(f => f.path === filePath);
+      const file = project.files.find(f => f.path === normalizeProjectPath(filePath));
       if (!file) {
         throw new AppError('File not found', 404);
       }
 
+      const content = await loadFileContent(file);
+      const hash = file.hash || hashContent(content);
+      res.setHeader('ETag', `"${hash}"`);
+
       res.status(200).json({
         success: true,
         message: 'File retrieved successfully',
-        data: file,
+        data: {
+          path: file.path,
+          type: file.type,
+          size: file.size,
+          hash,
+          content,
+        },
       } as ApiResponse);
       return;
     }
@@ -345,14 +527,16 @@ router.get(
   })
 );
 
-// @desc    Share project
-// @route   POST /api/projects/:id/share
+// @desc    Create a file in a project
+// @route   POST /api/projects/:id/files
 // @access  Private
 router.post(
-  '/:id/share',
+  '/:id/files',
   protect,
   [
     param('id').isMongoId().withMessage('Invalid project ID'),
+    body('path').isString().withMessage('Path must be a string'),
+    body('content').isString().withMessage('Content must be a string'),
   ],
   asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
@@ -360,113 +544,1062 @@ router.post(
       throw new AppError('Validation failed', 400, errors.array());
     }
 
-    const { id } = req.params;
     const userId = req.user!._id;
+    const filePath = toEditablePath(req.body.path);
+    const content: string = req.body.content;
+    checkFileSize(content);
 
-    const project = await Project.findOne({ _id: id, userId });
+    const project = await findEditableProject(req.params.id!, userId);
+    const files = await loadFiles(project.files);
+    checkPathAvailable(files, filePath);
 
-    if (!project) {
-      throw new AppError('Project not found', 404);
+    await commitFileEdits(project, files, [{ path: filePath, operation: 'create', content }], userId, [
+      { path: filePath, operation: 'create' },
+    ]);
+    const entry = project.files.find(file => file.path === filePath)!;
+
+    res.setHeader('ETag', `"${entry.hash}"`);
+    res.status(201).json({
+      success: true,
+      message: 'File created successfully',
+      data: {
+        path: entry.path,
+        size: entry.size,
+        hash: entry.hash,
+        revision: project.revision,
+        stats: project.stats,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Update a file's contents. The caller must send the hash it last read, as an
+//          If-Match header or `hash` field, so concurrent edits are not overwritten.
+// @route   PUT /api/projects/:id/files
+// @access  Private
+router.put(
+  '/:id/files',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    body('path').isString().withMessage('Path must be a string'),
+    body('content').isString().withMessage('Content must be a string'),
+    body('hash').optional().isHexadecimal().withMessage('Hash must be hexadecimal'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
     }
 
-    if (project.status !== 'complete') {
-      throw new AppError('Only complete projects can be shared', 400);
+    const userId = req.user!._id;
+    const filePath = toEditablePath(req.body.path);
+    const content: string = req.body.content;
+    checkFileSize(content);
+
+    const project = await findEditableProject(req.params.id!, userId);
+    const files = await loadFiles(project.files);
+    const file = findEditableFile(files, filePath);
+    checkPrecondition(req, file, true);
+
+    const applied = await commitFileEdits(project, files, [{ path: filePath, operation: 'update', content }], userId, [
+      { path: filePath, operation: 'update' },
+    ]);
+    const entry = project.files.find(f => f.path === filePath)!;
+    const hash = entry.hash || hashContent(content);
+
+    res.setHeader('ETag', `"${hash}"`);
+    res.status(200).json({
+      success: true,
+      message: applied.length > 0 ? 'File updated successfully' : 'File is unchanged',
+      data: {
+        path: entry.path,
+        size: entry.size,
+        hash,
+        revision: project.revision,
+        stats: project.stats,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Rename or move a file
+// @route   POST /api/projects/:id/files/rename
+// @access  Private
+router.post(
+  '/:id/files/rename',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    body('from').isString().withMessage('From must be a string'),
+    body('to').isString().withMessage('To must be a string'),
+    body('hash').optional().isHexadecimal().withMessage('Hash must be hexadecimal'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
     }
 
-    // Generate share token if not exists
-    if (!project.shareToken) {
-      await project.generateShareToken();
+    const userId = req.user!._id;
+    const from = toEditablePath(req.body.from);
+    const to = toEditablePath(req.body.to);
+    if (from === to) {
+      throw new AppError('Source and destination paths are the same', 400);
     }
 
-    const shareUrl = `${process.env.FRONTEND_URL}/share/${project.shareToken}`;
+    const project = await findEditableProject(req.params.id!, userId);
+    const files = await loadFiles(project.files);
+    const file = findEditableFile(files, from);
+    checkPrecondition(req, file, false);
+    checkPathAvailable(files.filter(f => f.path !== from), to);
+
+    const changes: FileChange[] = [
+      { path: from, operation: 'delete' },
+      { path: to, operation: 'create', content: file.content },
+    ];
+    await commitFileEdits(project, files, changes, userId, [{ path: to, operation: 'rename', from }]);
+    const entry = project.files.find(f => f.path === to)!;
 
+    res.setHeader('ETag', `"${entry.hash}"`);
     res.status(200).json({
       success: true,
-      message: 'Share link generated successfully',
+      message: 'File renamed successfully',
       data: {
-        shareToken: project.shareToken,
-        shareUrl,
-        isPublic: project.isPublic,
+        from,
+        path: entry.path,
+        size: entry.size,
+        hash: entry.hash,
+        revision: project.revision,
+        stats: project.stats,
       },
     } as ApiResponse);
   })
 );
 
-// @desc    Get public projects
-// @route   GET /api/projects/public
-// @access  Public
-router.get(
-  '/public/explore',
+// @desc    Delete a file
+// @route   DELETE /api/projects/:id/files?path=
+// @access  Private
+router.delete(
+  '/:id/files',
+  protect,
   [
-    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
-    query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
-    query('sort').optional().isIn(['createdAt', 'qualityScore']).withMessage('Invalid sort field'),
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    query('path').isString().withMessage('Path must be a string'),
+    query('hash').optional().isHexadecimal().withMessage('Hash must be hexadecimal'),
   ],
-  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
     const errors = validationResult(req);
     if (!errors.isEmpty()) {
       throw new AppError('Validation failed', 400, errors.array());
     }
 
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 10;
-    const sort = (req.query.sort as string) || 'createdAt';
-    const order = 'desc';
+    const userId = req.user!._id;
+    const filePath = toEditablePath(req.query.path as string);
 
-    const skip = (page - 1) * limit;
-    const sortOptions: any = {};
-    sortOptions[sort] = order === 'desc' ? -1 : 1;
+    const project = await findEditableProject(req.params.id!, userId);
+    const files = await loadFiles(project.files);
+    const file = findEditableFile(files, filePath);
+    checkPrecondition(req, file, false);
 
-    const [projects, total] = await Promise.all([
-      Project.find({ isPublic: true, status: 'complete' })
-        .sort(sortOptions)
-        .skip(skip)
-        .limit(limit)
-        .select('name description requirements techStack stats qualityScore createdAt')
-        .populate('userId', 'firstName lastName avatar')
-        .lean(),
-      Project.countDocuments({ isPublic: true, status: 'complete' }),
+    await commitFileEdits(project, files, [{ path: filePath, operation: 'delete' }], userId, [
+      { path: filePath, operation: 'delete' },
     ]);
 
-    const totalPages = Math.ceil(total / limit);
+    res.status(200).json({
+      success: true,
+      message: 'File deleted successfully',
+      data: {
+        path: filePath,
+        revision: project.revision,
+        stats: project.stats,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    List project revisions
+// @route   GET /api/projects/:id/revisions
+// @access  Private
+router.get(
+  '/:id/revisions',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id } = req.params;
+    const userId = req.user!._id;
+
+    const project = await Project.findOne({ _id: id, userId }).select('revision');
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    const revisions = await ProjectRevision.findForProject(project._id).lean();
 
     res.status(200).json({
       success: true,
-      message: 'Public projects retrieved successfully',
-      data: projects,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages,
+      message: 'Revisions retrieved successfully',
+      data: {
+        currentRevision: project.revision,
+        revisions,
       },
-    } as PaginatedResponse<typeof projects[0]>);
+    } as ApiResponse);
   })
 );
 
-// Helper function to build file tree
-function buildFileTree(files: any[]) {
-  const tree: any = {};
-  
-  files.forEach(file => {
-    const parts = file.path.split('/');
-    let current = tree;
-    
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i];
-      const isFile = i === parts.length - 1 && file.type === 'file';
-      
-      if (!current[part]) {
-        current[part] = isFile ? { type: 'file', path: file.path } : { type: 'directory', children: {} };
-      }
-      
-      if (!isFile) {
-        current = current[part].children;
-      }
+// @desc    Get unified diffs between two revisions
+// @route   GET /api/projects/:id/revisions/:rev/diff
+// @access  Private
+router.get(
+  '/:id/revisions/:rev/diff',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    param('rev').isInt({ min: 1 }).withMessage('Revision must be a positive integer'),
+    query('against').optional().isInt({ min: 0 }).withMessage('Against must be a non-negative integer'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
     }
-  });
-  
-  return tree;
+
+    const { id } = req.params;
+    const userId = req.user!._id;
+    const rev = parseInt(req.params.rev!);
+    // Defaults to the previous revision; 0 compares against an empty project
+    const against = req.query.against !== undefined ? parseInt(req.query.against as string) : rev - 1;
+
+    const project = await Project.findOne({ _id: id, userId }).select('_id');
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    const [target, base] = await Promise.all([
+      ProjectRevision.findRevision(project._id, rev),
+      against > 0 ? ProjectRevision.findRevision(project._id, against) : null,
+    ]);
+
+    if (!target || (against > 0 && !base)) {
+      throw new AppError('Revision not found', 404);
+    }
+
+    // Only files whose contents differ need to be loaded from the blob store
+    const fingerprint = (file: ProjectFile) => file.hash || file.content;
+    const baseFiles = new Map((base?.files || []).map(file => [file.path, fingerprint(file)]));
+    const targetFiles = new Map(target.files.map(file => [file.path, fingerprint(file)]));
+    const [fromFiles, toFiles] = await Promise.all([
+      loadFiles((base?.files || []).filter(file => targetFiles.get(file.path) !== fingerprint(file))),
+      loadFiles(target.files.filter(file => baseFiles.get(file.path) !== fingerprint(file))),
+    ]);
+
+    const files = diffFiles(fromFiles, toFiles, {
+      from: against > 0 ? `revision ${against}` : 'empty',
+      to: `revision ${rev}`,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Diff generated successfully',
+      data: {
+        revision: rev,
+        against,
+        summary: {
+          added: files.filter(file => file.status === 'added').length,
+          removed: files.filter(file => file.status === 'removed').length,
+          modified: files.filter(file => file.status === 'modified').length,
+          additions: files.reduce((sum, file) => sum + file.additions, 0),
+          deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+        },
+        files,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Restore a previous revision as a new revision
+// @route   POST /api/projects/:id/revisions/:rev/restore
+// @access  Private
+router.post(
+  '/:id/revisions/:rev/restore',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    param('rev').isInt({ min: 1 }).withMessage('Revision must be a positive integer'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id } = req.params;
+    const userId = req.user!._id;
+    const rev = parseInt(req.params.rev!);
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    if (await GenerationJob.findActiveForProject(id!)) {
+      throw new AppError('Cannot restore a revision while generation is in progress', 409);
+    }
+
+    const revision = await ProjectRevision.findRevision(project._id, rev);
+    if (!revision) {
+      throw new AppError('Revision not found', 404);
+    }
+
+    if (rev === project.revision && project.status === 'complete') {
+      throw new AppError('Revision is already the current revision', 400);
+    }
+
+    // Restoring never rewrites history: the old contents become a new revision
+    const files = await loadFiles(revision.files);
+    await setProjectFiles(project, files);
+    project.packageJson = revision.packageJson;
+    project.components = revision.components;
+    project.status = 'complete';
+    project.progress = 100;
+    project.currentStep = `Restored revision ${rev}`;
+    project.error = undefined;
+    await refreshQualityReport(project, files);
+    if (!(await project.saveRevision())) {
+      throw new AppError('Project was changed by another request; reload it and try again', 409);
+    }
+    await ProjectRevision.snapshot(project, { source: 'restore', restoredFrom: rev, summary: `Restored revision ${rev}` });
+
+    const chat = await Chat.findOne({ projectId: project._id, userId });
+    await chat?.addMessage({
+      role: 'assistant',
+      content: `Restored revision ${rev}. The project is now at revision ${project.revision}.`,
+    });
+
+    logger.info('Project revision restored', {
+      projectId: id,
+      restoredFrom: rev,
+      revision: project.revision,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Revision restored successfully',
+      data: {
+        revision: project.revision,
+        restoredFrom: rev,
+        qualityScore: project.qualityScore,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Apply a registry integration to a generated project
+// @route   POST /api/projects/:id/integrations/:slug
+// @access  Private
+router.post(
+  '/:id/integrations/:slug',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    param('slug').isSlug().withMessage('Invalid integration slug'),
+    body('force').optional().isBoolean().withMessage('Force must be a boolean'),
+    body('config').optional().isObject().withMessage('Config must be an object'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id, slug } = req.params;
+    const userId = req.user!._id;
+    const force = req.body.force === true;
+    const config = req.body.config || {};
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    if (project.status !== 'complete') {
+      throw new AppError('Integrations can only be added to completed projects', 409);
+    }
+
+    if (await GenerationJob.findActiveForProject(id!)) {
+      throw new AppError('Cannot add an integration while generation is in progress', 409);
+    }
+
+    const integration = await Integration.findOne({ slug, status: { $in: ['active', 'beta'] } });
+    if (!integration) {
+      throw new AppError('Integration not found', 404);
+    }
+
+    if (project.integrations.includes(integration.slug)) {
+      throw new AppError('Integration is already applied to this project', 409);
+    }
+
+    const frameworks = integration.compatibility.frameworks;
+    if (frameworks.length > 0 && !frameworks.includes(project.techStack.framework as FrameworkTarget)) {
+      throw new AppError(`${integration.name} does not support ${project.techStack.framework} projects`, 400);
+    }
+
+    const validation = integration.validateConfig(config);
+    if (!validation.valid) {
+      throw new AppError('Invalid integration config', 400, validation.errors);
+    }
+
+    const applied = await Integration.find({ slug: { $in: project.integrations } });
+    const currentFiles = await loadFiles(project.files);
+    const result = applyIntegration(currentFiles, integration, { applied, force });
+
+    // Nothing is written unless the caller accepts the integration's side of every conflict
+    if (result.conflicts.length > 0 && !force) {
+      throw new AppError('Integration conflicts with the project', 409, result.conflicts);
+    }
+
+    if (result.changes.length > 0) {
+      await setProjectFiles(project, result.files);
+      const manifest = result.files.find(file => file.path === 'package.json');
+      if (manifest) {
+        project.packageJson = JSON.parse(manifest.content);
+      }
+      await refreshQualityReport(project, result.files);
+    }
+    project.integrations.push(integration.slug);
+    project.integrationConfigs = { ...project.integrationConfigs, [integration.slug]: config };
+    if (result.changes.length === 0) {
+      await project.save();
+    } else if (!(await project.saveRevision())) {
+      throw new AppError('Project was changed by another request; reload it and try again', 409);
+    }
+
+    if (result.changes.length > 0) {
+      await ProjectRevision.snapshot(project, { source: 'integration', summary: `Added ${integration.name}` });
+    }
+    await integration.incrementUsage();
+
+    const chat = await Chat.findOne({ projectId: project._id, userId });
+    await chat?.addMessage({
+      role: 'assistant',
+      content: `Added ${integration.name}. ${result.changes.length} file(s) changed.`,
+    });
+
+    logger.info('Integration applied to project', {
+      projectId: id,
+      integration: integration.slug,
+      changes: result.changes.length,
+      conflicts: result.conflicts.length,
+      revision: project.revision,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Integration applied successfully',
+      data: {
+        integration: integration.slug,
+        revision: project.revision,
+        changes: result.changes.map(({ path, operation }) => ({ path, operation })),
+        dependencies: result.dependencies,
+        conflicts: result.conflicts,
+        envVars: integration.envVars.map(({ name, description, required }) => ({ name, description, required })),
+        qualityScore: project.qualityScore,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    List project components pinned to an older version than the registry's
+// @route   GET /api/projects/:id/outdated-components
+// @access  Private
+router.get(
+  '/:id/outdated-components',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id } = req.params;
+    const userId = req.user!._id;
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    const outdated = await findOutdatedComponents(project);
+
+    res.status(200).json({
+      success: true,
+      message: 'Outdated components retrieved successfully',
+      data: {
+        outdated,
+        total: project.components.length,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Upgrade one project component to another published version
+// @route   POST /api/projects/:id/components/:componentId/upgrade
+// @access  Private
+router.post(
+  '/:id/components/:componentId/upgrade',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    param('componentId').isMongoId().withMessage('Invalid component ID'),
+    body('version').optional().isString().trim().notEmpty().withMessage('Version must be a non-empty string'),
+    body('force').optional().isBoolean().withMessage('Force must be a boolean'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id, componentId } = req.params;
+    const userId = req.user!._id;
+    const force = req.body.force === true;
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    if (project.status !== 'complete') {
+      throw new AppError('Components can only be upgraded in completed projects', 409);
+    }
+
+    if (await GenerationJob.findActiveForProject(id!)) {
+      throw new AppError('Cannot upgrade a component while generation is in progress', 409);
+    }
+
+    const entry = project.components.find(selected => selected.componentId.toString() === componentId);
+    if (!entry) {
+      throw new AppError('Component is not part of this project', 404);
+    }
+
+    const component = await Component.findById(componentId);
+    if (!component) {
+      throw new AppError('Component not found', 404);
+    }
+
+    // Defaults to the latest version
+    const version: string = req.body.version || component.version;
+    if (entry.version === version) {
+      throw new AppError(`Project already uses ${component.name} ${version}`, 409);
+    }
+
+    if (version !== component.version && !(await ComponentVersion.findVersion(component._id, version))) {
+      throw new AppError(`Version ${version} of ${component.name} is not published`, 404);
+    }
+
+    const currentFiles = await loadFiles(project.files);
+    const result = await upgradeComponent(project, currentFiles, componentId!, version, { force });
+
+    // Nothing is written unless the caller accepts overwriting every conflicting edit
+    if (result.conflicts.length > 0 && !force) {
+      throw new AppError('Upgrade conflicts with changes made to the project', 409, result.conflicts);
+    }
+
+    if (result.changes.length > 0) {
+      await setProjectFiles(project, result.files);
+      const manifest = result.files.find(file => file.path === 'package.json');
+      if (manifest) {
+        project.packageJson = JSON.parse(manifest.content);
+      }
+      await refreshQualityReport(project, result.files);
+    }
+    entry.version = result.toVersion;
+    if (!(await project.saveRevision())) {
+      throw new AppError('Project was changed by another request; reload it and try again', 409);
+    }
+
+    await ProjectRevision.snapshot(project, {
+      source: 'upgrade',
+      summary: `Upgraded ${component.name} from ${result.fromVersion || 'an unrecorded version'} to ${result.toVersion}`,
+    });
+
+    logger.info('Project component upgraded', {
+      projectId: id,
+      componentId,
+      fromVersion: result.fromVersion,
+      toVersion: result.toVersion,
+      changes: result.changes.length,
+      conflicts: result.conflicts.length,
+      revision: project.revision,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Component upgraded successfully',
+      data: {
+        componentId,
+        fromVersion: result.fromVersion,
+        toVersion: result.toVersion,
+        revision: project.revision,
+        changes: result.changes.map(({ path, operation }) => ({ path, operation })),
+        dependencies: result.dependencies,
+        conflicts: result.conflicts,
+        qualityScore: project.qualityScore,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Share project, optionally setting when the link expires and whether it allows downloads
+// @route   POST /api/projects/:id/share
+// @access  Private
+router.post(
+  '/:id/share',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    ...shareSettingsValidators,
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id } = req.params;
+    const userId = req.user!._id;
+
+    const project = await Project.findOne({ _id: id, userId });
+
+    if (!project) {
+      throw new AppError('Project not found', 404);
+    }
+
+    if (project.status !== 'complete') {
+      throw new AppError('Only complete projects can be shared', 400);
+    }
+
+    applyShareSettings(project, req.body);
+
+    // Generate share token if not exists
+    if (!project.shareToken) {
+      await project.generateShareToken();
+    } else {
+      await project.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Share link generated successfully',
+      data: toShareInfo(project),
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get the share link, its settings and view count
+// @route   GET /api/projects/:id/share
+// @access  Private
+router.get(
+  '/:id/share',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const project = await findSharedProject(req.params.id!, req.user!._id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Share link retrieved successfully',
+      data: toShareInfo(project),
+    } as ApiResponse);
+  })
+);
+
+// @desc    Update share link settings
+// @route   PUT /api/projects/:id/share
+// @access  Private
+router.put(
+  '/:id/share',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    ...shareSettingsValidators,
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const project = await findSharedProject(req.params.id!, req.user!._id);
+    applyShareSettings(project, req.body);
+    await project.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Share settings updated successfully',
+      data: toShareInfo(project),
+    } as ApiResponse);
+  })
+);
+
+// @desc    Replace the share token, invalidating the old link but keeping its settings
+// @route   POST /api/projects/:id/share/rotate
+// @access  Private
+router.post(
+  '/:id/share/rotate',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const project = await findSharedProject(req.params.id!, req.user!._id);
+    await project.generateShareToken();
+
+    logger.info('Share token rotated', { projectId: project._id.toString() });
+
+    res.status(200).json({
+      success: true,
+      message: 'Share link rotated successfully',
+      data: toShareInfo(project),
+    } as ApiResponse);
+  })
+);
+
+// @desc    Revoke the share link
+// @route   DELETE /api/projects/:id/share
+// @access  Private
+router.delete(
+  '/:id/share',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const project = await findSharedProject(req.params.id!, req.user!._id);
+    await project.revokeShareToken();
+
+    logger.info('Share token revoked', { projectId: project._id.toString() });
+
+    res.status(200).json({
+      success: true,
+      message: 'Share link revoked successfully',
+    } as ApiResponse);
+  })
+);
+
+// @desc    Fork one of your own projects or a public project
+// @route   POST /api/projects/:id/fork
+// @access  Private
+router.post(
+  '/:id/fork',
+  protect,
+  [
+    param('id').isMongoId().withMessage('Invalid project ID'),
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const { id } = req.params;
+    const userId = req.user!._id;
+
+    const source = await Project.findOne({ _id: id, $or: [{ userId }, { isPublic: true }] });
+
+    if (!source) {
+      throw new AppError('Project not found', 404);
+    }
+
+    if (source.status !== 'complete') {
+      throw new AppError('Only complete projects can be forked', 409);
+    }
+
+    const { project, chat } = await forkProject(source, userId, { name: req.body.name });
+
+    res.status(201).json({
+      success: true,
+      message: 'Project forked successfully',
+      data: {
+        projectId: project._id,
+        chatId: chat._id,
+        name: project.name,
+        forkedFrom: project.forkedFrom,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get public projects
+// @route   GET /api/projects/public
+// @access  Public
+router.get(
+  '/public/explore',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('Limit must be between 1 and 20'),
+    query('sort').optional().isIn(['createdAt', 'qualityScore', 'forkCount']).withMessage('Invalid sort field'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const sort = (req.query.sort as string) || 'createdAt';
+    const order = 'desc';
+
+    const skip = (page - 1) * limit;
+    const sortOptions: any = {};
+    sortOptions[sort] = order === 'desc' ? -1 : 1;
+
+    const [projects, total] = await Promise.all([
+      Project.find({ isPublic: true, status: 'complete' })
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(limit)
+        .select('name description requirements techStack stats qualityScore forkCount forkedFrom createdAt')
+        .populate('userId', 'firstName lastName avatar')
+        .lean(),
+      Project.countDocuments({ isPublic: true, status: 'complete' }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    res.status(200).json({
+      success: true,
+      message: 'Public projects retrieved successfully',
+      data: projects,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+      },
+    } as PaginatedResponse<typeof projects[0]>);
+  })
+);
+
+// Apply validated share settings from a request body; `expiresAt: null` clears the expiry
+function applyShareSettings(project: IProject, settings: { expiresAt?: string | null; allowDownload?: boolean }): void {
+  if (settings.expiresAt !== undefined) {
+    project.shareSettings.expiresAt = settings.expiresAt === null ? null : new Date(settings.expiresAt);
+  }
+  if (settings.allowDownload !== undefined) {
+    project.shareSettings.allowDownload = settings.allowDownload;
+  }
+}
+
+// Load a project the user owns that has an active share token
+async function findSharedProject(id: string, userId: Types.ObjectId): Promise<IProject> {
+  const project = await Project.findOne({ _id: id, userId });
+
+  if (!project) {
+    throw new AppError('Project not found', 404);
+  }
+
+  if (!project.shareToken) {
+    throw new AppError('Project is not shared', 404);
+  }
+
+  return project;
+}
+
+function toShareInfo(project: IProject) {
+  const { expiresAt, allowDownload, views, lastViewedAt } = project.shareSettings;
+
+  return {
+    shareToken: project.shareToken,
+    shareUrl: `${process.env.FRONTEND_URL}/share/${project.shareToken}`,
+    isPublic: project.isPublic,
+    expiresAt: expiresAt || null,
+    expired: !!expiresAt && expiresAt <= new Date(),
+    allowDownload,
+    views,
+    lastViewedAt: lastViewedAt || null,
+  };
+}
+
+// Largest file accepted by the file editing endpoints, in bytes
+const MAX_EDITABLE_FILE_SIZE = 1024 * 1024;
+
+// Normalize a path from a file editing request, rejecting paths outside the project
+function toEditablePath(filePath: string): string {
+  const normalized = normalizeProjectPath(filePath);
+  if (!normalized) {
+    throw new AppError(`Invalid file path: ${filePath}`, 400);
+  }
+  return normalized;
+}
+
+function checkFileSize(content: string): void {
+  if (Buffer.byteLength(content, 'utf8') > MAX_EDITABLE_FILE_SIZE) {
+    throw new AppError(`File cannot exceed ${MAX_EDITABLE_FILE_SIZE / 1024} KB`, 413);
+  }
+}
+
+// Load a project the user owns whose files can be edited right now
+async function findEditableProject(id: string, userId: Types.ObjectId): Promise<IProject> {
+  const project = await Project.findOne({ _id: id, userId });
+
+  if (!project) {
+    throw new AppError('Project not found', 404);
+  }
+
+  if (project.status !== 'complete') {
+    throw new AppError('Files can only be edited in completed projects', 409);
+  }
+
+  if (await GenerationJob.findActiveForProject(id)) {
+    throw new AppError('Cannot edit files while generation is in progress', 409);
+  }
+
+  return project;
+}
+
+function findEditableFile(files: GeneratedFile[], filePath: string): GeneratedFile {
+  const file = files.find(f => f.path === filePath);
+  if (!file) {
+    throw new AppError('File not found', 404);
+  }
+  if (file.type !== 'file') {
+    throw new AppError('Directories cannot be edited', 400);
+  }
+  return file;
+}
+
+// A new path must not exist, sit inside a file or hold files of its own
+function checkPathAvailable(files: GeneratedFile[], filePath: string): void {
+  for (const file of files) {
+    if (file.path === filePath) {
+      throw new AppError(`${filePath} already exists`, 409);
+    }
+    if (filePath.startsWith(`${file.path}/`) && file.type === 'file') {
+      throw new AppError(`${file.path} is a file, not a directory`, 409);
+    }
+    if (file.path.startsWith(`${filePath}/`)) {
+      throw new AppError(`${filePath} is a directory`, 409);
+    }
+  }
+}
+
+// Compare the hash the client last read (If-Match header, or a `hash` field in the body
+// or query) with the file's current contents
+function checkPrecondition(req: AuthenticatedRequest, file: GeneratedFile, required: boolean): void {
+  const expected = req.get('If-Match')?.replace(/^W\//, '').replace(/"/g, '').trim()
+    || req.body?.hash
+    || (req.query.hash as string | undefined);
+
+  if (!expected) {
+    if (required) {
+      throw new AppError('An If-Match header or hash of the current contents is required', 428);
+    }
+    return;
+  }
+
+  const current = hashContent(file.content);
+  if (expected !== '*' && expected !== current) {
+    throw new AppError('File was changed since it was loaded', 412, { path: file.path, hash: current });
+  }
+}
+
+// Store edited files as a new revision, recording who changed which paths.
+// Resolves the changes that were applied; nothing is saved when none were.
+async function commitFileEdits(
+  project: IProject,
+  files: GeneratedFile[],
+  changes: FileChange[],
+  userId: Types.ObjectId,
+  edits: FileEditRecord[]
+): Promise<FileChange[]> {
+  const { files: updated, applied } = applyFileChanges(files, changes);
+  if (applied.length === 0) return applied;
+
+  await setProjectFiles(project, updated);
+  // A hand-edited package.json may be mid-change; keep the last valid manifest
+  const manifest = updated.find(file => file.path === 'package.json');
+  try {
+    project.packageJson = manifest ? JSON.parse(manifest.content) : null;
+  } catch {
+    // Keep the previous manifest
+  }
+  await refreshQualityReport(project, updated);
+  // The precondition was checked against the loaded document; another edit may have
+  // been saved since
+  if (!(await project.saveRevision())) {
+    throw new AppError('Project was changed by another request; reload it and try again', 409);
+  }
+
+  await ProjectRevision.snapshot(project, {
+    source: 'edit',
+    summary: edits.map(edit => edit.from ? `Renamed ${edit.from} to ${edit.path}` : `${capitalize(edit.operation)}d ${edit.path}`).join('\n'),
+    author: userId,
+    edits,
+  });
+
+  logger.info('Project files edited', {
+    projectId: project._id.toString(),
+    userId: userId.toString(),
+    edits,
+    revision: project.revision,
+  });
+
+  return applied;
+}
+
+// Run the quality checks on an imported project after the response has been sent; checking
+// thousands of files would otherwise hold up the request. Only the project is scored: the
+// import snapshot is never rewritten. An edit saved in the meantime computes its own
+// report, so a stale one is not written over it.
+function scoreImportedProject(project: IProject, files: GeneratedFile[]): void {
+  setImmediate(() => {
+    refreshQualityReport(project, files)
+      .then(report => Project.updateOne(
+        { _id: project._id, revision: project.revision },
+        { $set: { qualityReport: report, qualityScore: report.overall } }
+      ))
+      .catch(error => logger.error('Failed to score imported project', { projectId: project._id.toString(), error }));
+  });
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
 }
 
 export default router;
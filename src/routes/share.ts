@@ -0,0 +1,195 @@
+import express from 'express';
+import { query, param, body, validationResult } from 'express-validator';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { asyncHandler } from '../middleware/errorHandler';
+import { AppError } from '../middleware/errorHandler';
+import { protect } from '../middleware/auth';
+import Project from '../models/Project';
+import { forkProject } from '../services/projectForkService';
+import { loadFileContent } from '../services/fileStoreService';
+import { writeProjectArchive } from '../services/projectArchiveService';
+import { buildFileTree, hashContent, normalizeProjectPath } from '../utils/projectFiles';
+import logger from '../utils/logger';
+
+const router = express.Router();
+
+const shareTokenValidator = param('shareToken').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Invalid share token');
+
+// @desc    View a shared project's summary and file tree
+// @route   GET /api/share/:shareToken
+// @access  Public
+router.get(
+  '/:shareToken',
+  [
+    shareTokenValidator,
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const project = await Project.findByShareToken(req.params.shareToken!);
+
+    if (!project) {
+      throw new AppError('Shared project not found', 404);
+    }
+
+    await Project.updateOne(
+      { _id: project._id },
+      { $inc: { 'shareSettings.views': 1 }, $set: { 'shareSettings.lastViewedAt': new Date() } }
+    );
+
+    // Only what a visitor needs; the prompt, configs and history stay private
+    res.status(200).json({
+      success: true,
+      message: 'Shared project retrieved successfully',
+      data: {
+        name: project.name,
+        description: project.description,
+        owner: project.userId,
+        techStack: project.techStack,
+        stats: project.stats,
+        qualityScore: project.qualityScore,
+        components: project.components.map(component => component.componentId),
+        integrations: project.integrations,
+        forkCount: project.forkCount,
+        forkedFrom: project.forkedFrom?.projectId ? { name: project.forkedFrom.name } : null,
+        allowDownload: project.shareSettings.allowDownload,
+        expiresAt: project.shareSettings.expiresAt || null,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt,
+        tree: buildFileTree(project.files),
+        files: project.files.map(file => ({ path: file.path, type: file.type, size: file.size })),
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Get the contents of a file in a shared project
+// @route   GET /api/share/:shareToken/files?path=
+// @access  Public
+router.get(
+  '/:shareToken/files',
+  [
+    shareTokenValidator,
+    query('path').isString().withMessage('Path must be a string'),
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const filePath = normalizeProjectPath(req.query.path as string);
+    if (!filePath) {
+      throw new AppError('Invalid file path', 400);
+    }
+
+    const project = await Project.findByShareToken(req.params.shareToken!);
+
+    if (!project) {
+      throw new AppError('Shared project not found', 404);
+    }
+
+    const file = project.files.find(f => f.path === filePath && f.type === 'file');
+    if (!file) {
+      throw new AppError('File not found', 404);
+    }
+
+    const content = await loadFileContent(file);
+    const hash = file.hash || hashContent(content);
+    res.setHeader('ETag', `"${hash}"`);
+
+    res.status(200).json({
+      success: true,
+      message: 'File retrieved successfully',
+      data: {
+        path: file.path,
+        size: file.size,
+        hash,
+        content,
+      },
+    } as ApiResponse);
+  })
+);
+
+// @desc    Download a shared project as ZIP, if the owner allows it
+// @route   GET /api/share/:shareToken/download
+// @access  Public
+router.get(
+  '/:shareToken/download',
+  [
+    shareTokenValidator,
+  ],
+  asyncHandler(async (req: express.Request, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const project = await Project.findByShareToken(req.params.shareToken!);
+
+    if (!project) {
+      throw new AppError('Shared project not found', 404);
+    }
+
+    if (!project.shareSettings.allowDownload) {
+      throw new AppError('The owner has not allowed downloads of this project', 403);
+    }
+
+    const filename = `${project.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.zip`;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    await writeProjectArchive(project, res);
+
+    logger.info('Shared project downloaded', { projectId: project._id.toString(), filename });
+  })
+);
+
+// @desc    Fork a project shared by link, if the owner allows downloads
+// @route   POST /api/share/:shareToken/fork
+// @access  Private
+router.post(
+  '/:shareToken/fork',
+  protect,
+  [
+    shareTokenValidator,
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  ],
+  asyncHandler(async (req: AuthenticatedRequest, res: express.Response): Promise<void> => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw new AppError('Validation failed', 400, errors.array());
+    }
+
+    const userId = req.user!._id;
+
+    const source = await Project.findByShareToken(req.params.shareToken!);
+
+    if (!source) {
+      throw new AppError('Shared project not found', 404);
+    }
+
+    // A fork is a full copy, so it needs the same permission as a download
+    if (!source.shareSettings.allowDownload) {
+      throw new AppError('The owner has not allowed copies of this project', 403);
+    }
+
+    const { project, chat } = await forkProject(source, userId, { name: req.body.name });
+
+    res.status(201).json({
+      success: true,
+      message: 'Project forked successfully',
+      data: {
+        projectId: project._id,
+        chatId: chat._id,
+        name: project.name,
+        forkedFrom: project.forkedFrom,
+      },
+    } as ApiResponse);
+  })
+);
+
+export default router;
@@ -0,0 +1,90 @@
+// Load environment variables first
+import dotenv from 'dotenv';
+dotenv.config();
+
+import path from 'path';
+import mongoose from 'mongoose';
+
+// Import configurations
+import connectDB from '../config/database';
+
+// Import services
+import { applyCatalogSync, formatSyncPlan, loadCatalog, planCatalogSync } from '../services/catalogService';
+
+// Import utilities
+import logger from '../utils/logger';
+
+const USAGE = `Usage: npm run catalog:sync -- [--dry-run] [--verbose] [--dir <catalog directory>]
+
+Validates the component and integration manifests in the catalog directory
+(default: ./catalog, or CATALOG_DIR) and upserts them into the database.
+Entries missing from the catalog are marked deprecated.
+
+  --dry-run   Print the changes without writing them
+  --verbose   Also list unchanged entries
+  --dir       Catalog directory to read`;
+
+const parseArgs = (args: string[]) => {
+  const options = { dryRun: false, verbose: false, dir: process.env.CATALOG_DIR || 'catalog', help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--verbose') options.verbose = true;
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else if (arg === '--dir' && args[i + 1]) options.dir = args[++i]!;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  return options;
+};
+
+const run = async (): Promise<number> => {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const root = path.resolve(options.dir);
+  const catalog = loadCatalog(root);
+
+  if (catalog.errors.length > 0) {
+    console.error(`Catalog ${root} has ${catalog.errors.length} invalid entr${catalog.errors.length === 1 ? 'y' : 'ies'}:`);
+    for (const error of catalog.errors) {
+      console.error(`  ${error.entry}: ${error.message}`);
+    }
+    return 1;
+  }
+
+  // An empty or mistyped directory would otherwise deprecate the whole registry
+  if (catalog.components.length === 0 && catalog.integrations.length === 0) {
+    console.error(`No manifests found in ${root}`);
+    return 1;
+  }
+
+  await connectDB();
+  try {
+    const actions = await planCatalogSync(catalog);
+    console.log(formatSyncPlan(actions, { verbose: options.verbose }));
+
+    if (options.dryRun) {
+      console.log('\nDry run: no changes were written.');
+    } else if (actions.some(action => action.action !== 'unchanged')) {
+      await applyCatalogSync(catalog, actions);
+      console.log('\nCatalog synced.');
+    }
+  } finally {
+    await mongoose.connection.close();
+  }
+
+  return 0;
+};
+
+run()
+  .then(code => process.exit(code))
+  .catch(error => {
+    logger.error('Catalog sync failed', error);
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -22,9 +22,13 @@ import { errorHandler, notFound } from './middleware/errorHandler';
 import authRoutes from './routes/auth';
 import generateAppRoutes from './routes/generateApp';
 import projectRoutes from './routes/projects';
+import chatRoutes from './routes/chats';
+import componentRoutes from './routes/components';
+import integrationRoutes from './routes/integrations';
+import shareRoutes from './routes/share';
 
 // Import utilities
-import logger from './utils/logger';
+import logger, { redactUrl } from './utils/logger';
 
 // Create Express app
 const app = express();
@@ -91,6 +95,8 @@ app.use(passport.initialize());
 app.use(passport.session());
 
 // Logging middleware
+// Streaming endpoints accept an access token in the query string; keep it out of access logs
+morgan.token('url', (req: express.Request) => redactUrl(req.originalUrl || req.url));
 if (process.env.NODE_ENV === 'development') {
   app.use(morgan('dev'));
 } else {
@@ -125,6 +131,10 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/generate-app', generateAppRoutes);
 app.use('/api/projects', projectRoutes);
+app.use('/api/chats', chatRoutes);
+app.use('/api/components', componentRoutes);
+app.use('/api/integrations', integrationRoutes);
+app.use('/api/share', shareRoutes);
 
 // 404 handler
 app.use(notFound);
@@ -0,0 +1,69 @@
+import { AIProvider, RefinementInput, RefinementPlan, RequirementAnalysis } from '../types';
+import { OpenAIProvider } from './providers/openaiProvider';
+import { StubProvider } from './providers/stubProvider';
+import logger from '../utils/logger';
+
+let provider: AIProvider | null = null;
+
+// Resolve the provider from the environment. The stub is used when mock responses are
+// requested or no OpenAI key is configured, so local development works offline.
+const createProvider = (): AIProvider => {
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  if (process.env.MOCK_AI_RESPONSES === 'true' || !apiKey) {
+    logger.info('Using local stub AI provider');
+    return new StubProvider();
+  }
+
+  return new OpenAIProvider({
+    apiKey,
+    model: process.env.OPENAI_MODEL,
+    maxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '2000'),
+  });
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) {
+    provider = createProvider();
+  }
+  return provider;
+};
+
+// Override the provider (e.g. to force the stub in scripts or tests)
+export const setAIProvider = (newProvider: AIProvider | null): void => {
+  provider = newProvider;
+};
+
+// Analyze a natural-language app description into structured requirements
+export const analyzeRequirements = async (userInput: string): Promise<RequirementAnalysis> => {
+  const activeProvider = getAIProvider();
+  const startTime = Date.now();
+
+  const analysis = await activeProvider.analyzeRequirements(userInput);
+
+  logger.info('Requirements analyzed', {
+    provider: activeProvider.name,
+    features: analysis.features.length,
+    entities: analysis.entities.length,
+    complexity: analysis.complexity,
+    processingTime: Date.now() - startTime,
+  });
+
+  return analysis;
+};
+
+// Plan file-level changes to an existing project from a follow-up request
+export const planRefinement = async (input: RefinementInput): Promise<RefinementPlan> => {
+  const activeProvider = getAIProvider();
+  const startTime = Date.now();
+
+  const plan = await activeProvider.planRefinement(input);
+
+  logger.info('Refinement planned', {
+    provider: activeProvider.name,
+    changes: plan.changes.length,
+    processingTime: Date.now() - startTime,
+  });
+
+  return plan;
+};
@@ -0,0 +1,460 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import semver from 'semver';
+import { createTwoFilesPatch } from 'diff';
+import { Document, Types } from 'mongoose';
+import { IComponent, IIntegration } from '../types';
+import Component from '../models/Component';
+import Integration from '../models/Integration';
+import { checkSchema } from '../utils/jsonSchema';
+import logger from '../utils/logger';
+
+// Catalog layout (see catalog/README.md):
+//   components/<dir>/component.yaml        variants/<variantId>/component.tsx, styles.*, types.*, tests.*
+//   integrations/<dir>/integration.yaml    files[].source paths are relative to the manifest
+
+export type CatalogKind = 'component' | 'integration';
+
+export interface CatalogError {
+  entry: string;
+  message: string;
+}
+
+interface CatalogEntry {
+  kind: CatalogKind;
+  // Upsert key: component name or integration slug
+  key: string;
+  manifestPath: string;
+  data: Record<string, any>;
+  // Component names this component cannot be combined with
+  incompatibleWith: string[];
+}
+
+export interface Catalog {
+  components: CatalogEntry[];
+  integrations: CatalogEntry[];
+  errors: CatalogError[];
+}
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SyncAction {
+  kind: CatalogKind;
+  key: string;
+  action: 'create' | 'update' | 'deprecate' | 'unchanged';
+  fromVersion?: string;
+  toVersion?: string;
+  changes: FieldChange[];
+}
+
+// Fields owned by the catalog; usage counts, ratings and versions are managed by the sync itself
+const COMPONENT_FIELDS = [
+  'name',
+  'category',
+  'description',
+  'dependencies',
+  'requiredIntegrations',
+  'complexity',
+  'variants',
+  'sampleData',
+  'apiEndpoints',
+  'eslintCompliant',
+  'testCoverage',
+  'tags',
+  'frameworks',
+  'author',
+  'status',
+  'performance',
+  'accessibility',
+];
+
+const INTEGRATION_FIELDS = [
+  'name',
+  'slug',
+  'description',
+  'category',
+  'provider',
+  'logo',
+  'dependencies',
+  'envVars',
+  'files',
+  'setupInstructions',
+  'configSchema',
+  'tags',
+  'compatibility',
+  'pricing',
+  'documentation',
+  'status',
+  'complexity',
+  'testEndpoint',
+  'testInstructions',
+  'author',
+  'featured',
+];
+
+const MANIFEST_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const VARIANT_CODE_FILES = ['component', 'styles', 'types', 'tests'] as const;
+
+const relative = (root: string, target: string): string => path.relative(root, target).split(path.sep).join('/');
+
+const listDirectories = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .map(entry => path.join(dir, entry.name))
+        .sort()
+    : [];
+
+const findManifest = (dir: string, base: string): string | undefined =>
+  MANIFEST_EXTENSIONS.map(extension => path.join(dir, `${base}${extension}`)).find(file => fs.existsSync(file));
+
+// Read a file referenced from a manifest, refusing paths outside the entry directory
+const readEntryFile = (entryDir: string, source: string): string => {
+  const resolved = path.resolve(entryDir, source);
+  if (!resolved.startsWith(entryDir + path.sep)) {
+    throw new Error(`${source} is outside the entry directory`);
+  }
+  return fs.readFileSync(resolved, 'utf8');
+};
+
+const loadVariantCode = (entryDir: string, variantId: string): Record<string, string> => {
+  const variantDir = path.join(entryDir, 'variants', variantId);
+  if (!fs.existsSync(variantDir)) return {};
+
+  const code: Record<string, string> = {};
+  for (const fileName of fs.readdirSync(variantDir).sort()) {
+    const base = path.parse(fileName).name as typeof VARIANT_CODE_FILES[number];
+    if (VARIANT_CODE_FILES.includes(base) && code[base] === undefined) {
+      code[base] = fs.readFileSync(path.join(variantDir, fileName), 'utf8');
+    }
+  }
+  return code;
+};
+
+// Schema validation errors plus top-level keys the model doesn't know (which Mongoose would drop)
+const validationMessages = (doc: Document, data: Record<string, any>): string[] => {
+  const unknown = Object.keys(data).filter(key => doc.schema.pathType(key) === 'adhocOrUndefined');
+  const error = doc.validateSync();
+  return [
+    ...unknown.map(key => `Unknown field "${key}"`),
+    ...(error ? Object.values(error.errors).map(err => err.message) : []),
+  ];
+};
+
+const loadComponent = (root: string, entryDir: string, manifestPath: string): CatalogEntry => {
+  const { incompatibleWith = [], version, ...data } = yaml.load(fs.readFileSync(manifestPath, 'utf8')) as Record<string, any>;
+
+  data.variants = (data.variants || []).map((variant: Record<string, any>) => ({
+    ...variant,
+    code: { ...(variant.code || {}), ...loadVariantCode(entryDir, String(variant.id)) },
+  }));
+
+  const problems = validationMessages(new Component(data), data);
+  if (data.variants.length === 0) {
+    problems.push('Component must have at least one variant');
+  }
+  const variantIds = data.variants.map((variant: Record<string, any>) => variant.id);
+  if (new Set(variantIds).size !== variantIds.length) {
+    problems.push('Variant IDs must be unique within a component');
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  return {
+    kind: 'component',
+    key: data.name,
+    manifestPath: relative(root, manifestPath),
+    data: version ? { ...data, version } : data,
+    incompatibleWith,
+  };
+};
+
+const loadIntegration = (root: string, entryDir: string, manifestPath: string): CatalogEntry => {
+  const { version, ...data } = yaml.load(fs.readFileSync(manifestPath, 'utf8')) as Record<string, any>;
+
+  data.files = (data.files || []).map(({ source, ...integrationFile }: Record<string, any>) =>
+    source ? { ...integrationFile, content: readEntryFile(entryDir, source) } : integrationFile
+  );
+
+  const integration = new Integration(data);
+  const problems = validationMessages(integration, data);
+  if (data.configSchema) {
+    problems.push(...checkSchema(data.configSchema).map(problem => `configSchema ${problem.path || '(root)'} ${problem.message}`));
+  }
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+
+  return {
+    kind: 'integration',
+    key: data.slug,
+    manifestPath: relative(root, manifestPath),
+    data: version ? { ...data, version } : data,
+    incompatibleWith: [],
+  };
+};
+
+// Read and validate every manifest in a catalog directory. Invalid entries are
+// reported in `errors` rather than thrown so all problems surface at once.
+export const loadCatalog = (root: string): Catalog => {
+  const catalog: Catalog = { components: [], integrations: [], errors: [] };
+
+  const sections: [CatalogKind, string, typeof loadComponent, CatalogEntry[]][] = [
+    ['component', 'components', loadComponent, catalog.components],
+    ['integration', 'integrations', loadIntegration, catalog.integrations],
+  ];
+
+  for (const [kind, directory, load, entries] of sections) {
+    for (const entryDir of listDirectories(path.join(root, directory))) {
+      const manifestPath = findManifest(entryDir, kind);
+      if (!manifestPath) {
+        catalog.errors.push({ entry: relative(root, entryDir), message: `Missing ${kind}.yaml manifest` });
+        continue;
+      }
+
+      try {
+        entries.push(load(root, entryDir, manifestPath));
+      } catch (error) {
+        catalog.errors.push({ entry: relative(root, manifestPath), message: (error as Error).message });
+      }
+    }
+
+    const seen = new Map<string, string>();
+    for (const entry of entries) {
+      const previous = seen.get(entry.key);
+      if (previous) {
+        catalog.errors.push({ entry: entry.manifestPath, message: `Duplicate ${kind} "${entry.key}" (also defined in ${previous})` });
+      }
+      seen.set(entry.key, entry.manifestPath);
+    }
+  }
+
+  const componentNames = new Set(catalog.components.map(entry => entry.key));
+  for (const entry of catalog.components) {
+    for (const name of entry.incompatibleWith.filter(name => !componentNames.has(name))) {
+      catalog.errors.push({ entry: entry.manifestPath, message: `incompatibleWith references unknown component "${name}"` });
+    }
+  }
+
+  return catalog;
+};
+
+// Drop Mongoose ids and empty values and sort keys so documents compare structurally
+const normalize = (value: any): any => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value instanceof Types.ObjectId) return value.toString();
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => key !== '_id')
+      .sort()
+      .map(key => [key, normalize(value[key])] as const)
+      .filter(([, item]) => item !== undefined && item !== null && !(typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length === 0));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const comparable = (doc: Document, fields: string[]): Record<string, any> => {
+  const object = doc.toObject();
+  return normalize(Object.fromEntries(fields.map(field => [field, object[field]])));
+};
+
+const diffFields = (before: Record<string, any>, after: Record<string, any>, fields: string[]): FieldChange[] =>
+  fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+
+// Patch bump of a stored version; versions that are not valid semver start over at 1.0.0
+export const bumpVersion = (version: string): string => semver.inc(version, 'patch') || '1.0.0';
+
+// Version to record for a changed entry: the manifest's own version when it was
+// raised by hand, otherwise a patch bump of the stored version. A declared version
+// must be higher than the stored one.
+const nextVersion = (key: string, current: string, declared?: string): string => {
+  if (!declared || declared === current) return bumpVersion(current);
+
+  if (!semver.valid(declared)) {
+    throw new Error(`${key}: version ${declared} is not a valid semantic version`);
+  }
+  if (semver.valid(current) && !semver.gt(declared, current)) {
+    throw new Error(`${key}: version ${declared} must be higher than the current version ${current}`);
+  }
+  return declared;
+};
+
+// Compare the catalog with the database without writing anything
+export const planCatalogSync = async (catalog: Catalog): Promise<SyncAction[]> => {
+  const actions: SyncAction[] = [];
+
+  const existingComponents = await Component.find();
+  const namesById = new Map(existingComponents.map(component => [component._id.toString(), component.name]));
+  const componentsByName = new Map(existingComponents.map(component => [component.name, component]));
+
+  for (const entry of catalog.components) {
+    const existing = componentsByName.get(entry.key);
+    const { version, ...data } = entry.data;
+    const after = { ...comparable(new Component(data), COMPONENT_FIELDS), incompatibleWith: [...entry.incompatibleWith].sort() };
+
+    if (!existing) {
+      actions.push({ kind: 'component', key: entry.key, action: 'create', toVersion: version || '1.0.0', changes: diffFields({}, after, Object.keys(after)) });
+      continue;
+    }
+
+    const before = {
+      ...comparable(existing, COMPONENT_FIELDS),
+      incompatibleWith: existing.incompatibleWith.map(id => namesById.get(id.toString()) || id.toString()).sort(),
+    };
+    const changes = diffFields(before, after, [...COMPONENT_FIELDS, 'incompatibleWith']);
+    actions.push({
+      kind: 'component',
+      key: entry.key,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      fromVersion: existing.version,
+      toVersion: changes.length > 0 ? nextVersion(entry.key, existing.version, version) : existing.version,
+      changes,
+    });
+  }
+
+  const catalogNames = new Set(catalog.components.map(entry => entry.key));
+  for (const component of existingComponents) {
+    if (!catalogNames.has(component.name) && component.status !== 'deprecated') {
+      actions.push({
+        kind: 'component',
+        key: component.name,
+        action: 'deprecate',
+        fromVersion: component.version,
+        toVersion: component.version,
+        changes: [{ field: 'status', before: component.status, after: 'deprecated' }],
+      });
+    }
+  }
+
+  const existingIntegrations = await Integration.find();
+  const integrationsBySlug = new Map(existingIntegrations.map(integration => [integration.slug, integration]));
+
+  for (const entry of catalog.integrations) {
+    const existing = integrationsBySlug.get(entry.key);
+    const { version, ...data } = entry.data;
+    const after = comparable(new Integration(data), INTEGRATION_FIELDS);
+
+    if (!existing) {
+      actions.push({ kind: 'integration', key: entry.key, action: 'create', toVersion: version || '1.0.0', changes: diffFields({}, after, Object.keys(after)) });
+      continue;
+    }
+
+    const changes = diffFields(comparable(existing, INTEGRATION_FIELDS), after, INTEGRATION_FIELDS);
+    actions.push({
+      kind: 'integration',
+      key: entry.key,
+      action: changes.length > 0 ? 'update' : 'unchanged',
+      fromVersion: existing.version,
+      toVersion: changes.length > 0 ? nextVersion(entry.key, existing.version, version) : existing.version,
+      changes,
+    });
+  }
+
+  const catalogSlugs = new Set(catalog.integrations.map(entry => entry.key));
+  for (const integration of existingIntegrations) {
+    if (!catalogSlugs.has(integration.slug) && integration.status !== 'deprecated') {
+      actions.push({
+        kind: 'integration',
+        key: integration.slug,
+        action: 'deprecate',
+        fromVersion: integration.version,
+        toVersion: integration.version,
+        changes: [{ field: 'status', before: integration.status, after: 'deprecated' }],
+      });
+    }
+  }
+
+  return actions;
+};
+
+// Write a planned sync to the database. Removed entries are deprecated, never deleted,
+// because existing projects still reference them.
+export const applyCatalogSync = async (catalog: Catalog, actions: SyncAction[]): Promise<void> => {
+  const entries = new Map([...catalog.components, ...catalog.integrations].map(entry => [`${entry.kind}:${entry.key}`, entry]));
+
+  for (const action of actions.filter(item => item.action !== 'unchanged')) {
+    if (action.action === 'deprecate') {
+      if (action.kind === 'component') {
+        await Component.updateOne({ name: action.key }, { $set: { status: 'deprecated' } });
+      } else {
+        await Integration.updateOne({ slug: action.key }, { $set: { status: 'deprecated' } });
+      }
+      continue;
+    }
+
+    const { version, ...data } = entries.get(`${action.kind}:${action.key}`)!.data;
+    let doc: IComponent | IIntegration | null;
+    if (action.kind === 'component') {
+      doc = action.action === 'create' ? new Component() : await Component.findOne({ name: action.key });
+    } else {
+      doc = action.action === 'create' ? new Integration() : await Integration.findOne({ slug: action.key });
+    }
+    if (!doc) {
+      throw new Error(`${action.kind} ${action.key} no longer exists`);
+    }
+    doc.set({ ...data, version: action.toVersion });
+    await doc.save();
+  }
+
+  // Incompatibilities refer to other components, so they are resolved once every component exists
+  const componentIds = new Map((await Component.find().select('name')).map(component => [component.name, component._id]));
+  for (const entry of catalog.components) {
+    const ids = entry.incompatibleWith.map(name => componentIds.get(name)).filter((id): id is Types.ObjectId => !!id);
+    await Component.updateOne({ name: entry.key }, { $set: { incompatibleWith: ids } });
+  }
+
+  logger.info('Catalog synced', {
+    created: actions.filter(action => action.action === 'create').length,
+    updated: actions.filter(action => action.action === 'update').length,
+    deprecated: actions.filter(action => action.action === 'deprecate').length,
+  });
+};
+
+// YAML keeps multi-line code readable in diffs (block literals instead of escaped newlines)
+const formatValue = (value: unknown): string =>
+  value === undefined ? '' : typeof value === 'string' ? value : yaml.dump(value, { lineWidth: -1, noRefs: true }).trimEnd();
+
+// Human-readable diff of a sync plan, as printed by `catalog:sync --dry-run`
+export const formatSyncPlan = (actions: SyncAction[], options: { verbose?: boolean } = {}): string => {
+  const symbols = { create: '+', update: '~', deprecate: '-', unchanged: '=' };
+  const lines: string[] = [];
+
+  for (const action of actions) {
+    if (action.action === 'unchanged' && !options.verbose) continue;
+
+    const version = action.action === 'update'
+      ? ` (${action.fromVersion} -> ${action.toVersion})`
+      : action.toVersion ? ` (${action.toVersion})` : '';
+    lines.push(`${symbols[action.action]} ${action.action} ${action.kind} "${action.key}"${version}`);
+
+    if (action.action !== 'update' && action.action !== 'deprecate') continue;
+
+    for (const change of action.changes) {
+      const before = formatValue(change.before);
+      const after = formatValue(change.after);
+
+      if (!before.includes('\n') && !after.includes('\n') && before.length + after.length < 120) {
+        lines.push(`    ${change.field}: ${before || '(empty)'} -> ${after || '(empty)'}`);
+        continue;
+      }
+
+      const patch = createTwoFilesPatch(change.field, change.field, `${before}\n`, `${after}\n`, '', '', { context: 2 });
+      const hunks = patch.split('\n');
+      lines.push(`    ${change.field}:`, ...hunks.slice(hunks.findIndex(line => line.startsWith('@@'))).filter(Boolean).map(line => `      ${line}`));
+    }
+  }
+
+  const count = (kind: SyncAction['action']) => actions.filter(action => action.action === kind).length;
+  lines.push('', `${count('create')} to create, ${count('update')} to update, ${count('deprecate')} to deprecate, ${count('unchanged')} unchanged`);
+
+  return lines.join('\n');
+};
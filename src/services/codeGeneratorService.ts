@@ -0,0 +1,416 @@
+import {
+  ComponentCustomizations,
+  ComponentSelection,
+  FrameworkAdapter,
+  FrameworkTarget,
+  GeneratedFile,
+  GeneratedProject,
+  IComponent,
+  IComponentVersion,
+  IIntegration,
+  PageDefinition,
+  ResolvedComponent,
+  StylingClasses,
+  StylingSystem,
+} from '../types';
+import Component from '../models/Component';
+import ComponentVersion from '../models/ComponentVersion';
+import { nextjsAdapter } from './frameworks/nextjsAdapter';
+import { viteReactAdapter } from './frameworks/viteReactAdapter';
+import { viteVueAdapter } from './frameworks/viteVueAdapter';
+import { sveltekitAdapter } from './frameworks/sveltekitAdapter';
+import { file, renderTemplate, toPascalCase } from './frameworks/shared';
+import { applyIntegration, renderIntegrationSetup, resolveIntegrations } from './integrationService';
+import { parseDependency } from './dependencyResolver';
+import logger from '../utils/logger';
+
+export interface GenerateProjectInput {
+  projectId: string;
+  name: string;
+  selection: ComponentSelection;
+  techStack: GeneratedProject['techStack'];
+}
+
+export const FRAMEWORK_ADAPTERS: Record<FrameworkTarget, FrameworkAdapter> = {
+  nextjs: nextjsAdapter,
+  react: viteReactAdapter,
+  vue: viteVueAdapter,
+  svelte: sveltekitAdapter,
+};
+
+// Adapter for a techStack framework; unknown values fall back to Next.js
+export const getFrameworkAdapter = (framework?: string): FrameworkAdapter =>
+  FRAMEWORK_ADAPTERS[framework as FrameworkTarget] || nextjsAdapter;
+
+// Files, packages and markup conventions of a styling system
+interface StylingSetup {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  files: (adapter: FrameworkAdapter) => GeneratedFile[];
+  globalsCss: string;
+  classes: StylingClasses;
+}
+
+// Plain global classes shared by the styling systems without utility classes
+const PLAIN_GLOBALS_CSS = `*,
+*::before,
+*::after {
+  box-sizing: border-box;
+}
+
+body {
+  margin: 0;
+  font-family: system-ui, -apple-system, sans-serif;
+  color: #111827;
+}
+
+.page {
+  min-height: 100vh;
+}
+
+.page-centered {
+  display: flex;
+  align-items: center;
+  justify-content: center;
+}
+
+.page-title {
+  font-size: 2.25rem;
+  font-weight: 700;
+}
+
+.muted {
+  color: #4b5563;
+}
+`;
+
+const PLAIN_CLASSES: StylingClasses = {
+  main: 'page',
+  heading: 'page-title',
+  centered: 'page page-centered',
+  muted: 'muted',
+};
+
+// Framework-specific styling pieces (e.g. the Next.js styled-components registry) live in the adapters
+const STYLING_SETUPS: Record<StylingSystem, StylingSetup> = {
+  tailwindcss: {
+    dependencies: {},
+    devDependencies: {
+      autoprefixer: '^10.4.16',
+      postcss: '^8.4.32',
+      tailwindcss: '^3.4.0',
+    },
+    files: adapter => [
+      file('tailwind.config.ts', `import type { Config } from 'tailwindcss';
+
+const config: Config = {
+  content: [${adapter.tailwindContent.map(glob => `'${glob}'`).join(', ')}],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
+
+export default config;
+`),
+      file('postcss.config.js', `${adapter.esm ? 'export default' : 'module.exports ='} {
+  plugins: {
+    tailwindcss: {},
+    autoprefixer: {},
+  },
+};
+`),
+    ],
+    globalsCss: '@tailwind base;\n@tailwind components;\n@tailwind utilities;\n',
+    classes: {
+      main: 'min-h-screen',
+      heading: 'text-4xl font-bold text-gray-900',
+      centered: 'min-h-screen flex items-center justify-center',
+      muted: 'text-gray-600',
+    },
+  },
+  'css-modules': {
+    dependencies: {},
+    devDependencies: {},
+    files: () => [],
+    globalsCss: PLAIN_GLOBALS_CSS,
+    classes: PLAIN_CLASSES,
+  },
+  'styled-components': {
+    dependencies: {
+      'styled-components': '^6.1.0',
+    },
+    devDependencies: {},
+    files: () => [],
+    globalsCss: PLAIN_GLOBALS_CSS,
+    classes: PLAIN_CLASSES,
+  },
+};
+
+const toPackageName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'generated-app';
+
+// Load the published version a selection pins. Components saved before versions were
+// tracked have no snapshot yet, so their current state is published on first use.
+const loadVersion = async (component: IComponent, version?: string): Promise<IComponentVersion | null> => {
+  const pinned = version || component.version;
+  const snapshot = await ComponentVersion.findVersion(component._id, pinned);
+  if (snapshot) return snapshot;
+  return pinned === component.version ? ComponentVersion.publish(component) : null;
+};
+
+// Load selected components at their pinned versions and resolve their variants,
+// keeping selection order
+export const resolveComponents = async (selected: ComponentSelection['components']): Promise<ResolvedComponent[]> => {
+  const ids = selected.map(entry => entry.componentId);
+  const components = await Component.find({ _id: { $in: ids } });
+  const byId = new Map(components.map(component => [component._id.toString(), component]));
+  const usedIdentifiers = new Set<string>();
+  const resolved: ResolvedComponent[] = [];
+
+  for (const entry of selected) {
+    const component = byId.get(entry.componentId);
+    if (!component) {
+      logger.warn('Selected component no longer exists', { componentId: entry.componentId });
+      continue;
+    }
+
+    const snapshot = await loadVersion(component, entry.version);
+    if (!snapshot) {
+      logger.warn('Selected component version is not published; using the latest version', {
+        componentId: entry.componentId,
+        version: entry.version,
+        latest: component.version,
+      });
+    }
+    const source = snapshot || component;
+
+    const variant = source.variants.find(v => v.id === entry.variantId) || source.variants[0];
+    if (!variant) {
+      logger.warn('Selected component has no variants', { componentId: entry.componentId });
+      continue;
+    }
+
+    const customizations: ComponentCustomizations = entry.customizations || {};
+    const baseIdentifier = toPascalCase(customizations.name || source.name);
+    let identifier = baseIdentifier;
+    for (let suffix = 2; usedIdentifiers.has(identifier); suffix++) {
+      identifier = `${baseIdentifier}${suffix}`;
+    }
+    usedIdentifiers.add(identifier);
+
+    resolved.push({
+      component,
+      version: source.version,
+      variant,
+      dependencies: source.dependencies,
+      identifier,
+      customizations,
+    });
+  }
+
+  return resolved;
+};
+
+// Render the files of one component into the adapter's components directory
+export const renderComponentFiles = (resolved: ResolvedComponent, projectName: string, adapter: FrameworkAdapter): GeneratedFile[] => {
+  const { variant, identifier, customizations } = resolved;
+  const directory = `${adapter.componentsDirectory}/${identifier}`;
+  const extension = adapter.componentExtension;
+  const variables = {
+    projectName,
+    componentName: identifier,
+    ...(customizations.variables || {}),
+  };
+
+  const files = [file(`${directory}/${identifier}.${extension}`, renderTemplate(variant.code.component, variables))];
+
+  if (variant.code.styles) {
+    files.push(file(`${directory}/${identifier}.module.css`, renderTemplate(variant.code.styles, variables)));
+  }
+  if (variant.code.types) {
+    files.push(file(`${directory}/${identifier}.types.ts`, renderTemplate(variant.code.types, variables)));
+  }
+  if (variant.code.tests) {
+    files.push(file(`${directory}/${identifier}.test.${extension === 'tsx' ? 'tsx' : 'ts'}`, renderTemplate(variant.code.tests, variables)));
+  }
+
+  const entry = extension === 'tsx' ? identifier : `${identifier}.${extension}`;
+  files.push(file(`${directory}/index.ts`, `export { default } from './${entry}';\n`));
+  return files;
+};
+
+const renderSampleData = (sampleData: Record<string, any[]>): string =>
+  `// Sample records used to render components before a real data source is connected
+export const sampleData = ${JSON.stringify(sampleData, null, 2)} as const;
+
+export default sampleData;
+`;
+
+const renderSetupInstructions = (
+  name: string,
+  integrations: IIntegration[],
+  adapter: FrameworkAdapter,
+  skipped: GeneratedProject['skippedIntegrations']
+): string => {
+  const steps = [
+    `# ${name}`,
+    '',
+    '## Getting started',
+    '',
+    '1. Install dependencies: `npm install`',
+    '2. Start the development server: `npm run dev`',
+    `3. Open ${adapter.devUrl}`,
+  ];
+
+  const integrationSetup = renderIntegrationSetup(integrations);
+  if (integrationSetup) {
+    steps.push('', integrationSetup.trimEnd());
+  }
+
+  if (skipped.length > 0) {
+    steps.push(
+      '',
+      '## Integrations that need configuration',
+      '',
+      'These integrations were not added because they need a configuration first:',
+      '',
+      ...skipped.map(({ name, errors }) => `- ${name}: ${errors.map(error => `${error.path || 'config'} ${error.message}`).join('; ')}`)
+    );
+  }
+
+  return steps.join('\n') + '\n';
+};
+
+// Assemble a full project from the selected component variants
+export const generateProject = async (input: GenerateProjectInput): Promise<GeneratedProject> => {
+  const { projectId, name, selection, techStack } = input;
+
+  const adapter = getFrameworkAdapter(techStack.framework);
+  const styling = STYLING_SETUPS[techStack.styling] || STYLING_SETUPS.tailwindcss;
+  if (!adapter.stylings.includes(techStack.styling)) {
+    throw new Error(`${techStack.styling} is not supported for ${adapter.label} projects`);
+  }
+  const context = { projectName: name, styling: techStack.styling, classes: styling.classes };
+
+  const components = await resolveComponents(selection.components);
+  const integrations = await resolveIntegrations(selection.requiredIntegrations, techStack);
+  const byId = new Map(components.map(resolved => [resolved.component._id.toString(), resolved]));
+
+  let files: GeneratedFile[] = [
+    ...adapter.renderSkeleton(context),
+    ...styling.files(adapter),
+    file(adapter.globalStylesPath, styling.globalsCss),
+  ];
+
+  for (const resolved of components) {
+    files.push(...renderComponentFiles(resolved, name, adapter));
+  }
+
+  // Layout components wrap every page; the rest are placed on their routes
+  const layouts = selection.pageStructure.layouts
+    .map(id => byId.get(id))
+    .filter((resolved): resolved is ResolvedComponent => !!resolved);
+
+  const routing: Record<string, { page: string; components: string[] }> = selection.pageStructure.routing || {};
+  if (!routing['/']) {
+    routing['/'] = { page: 'Home', components: [] };
+  }
+
+  const pages: PageDefinition[] = Object.entries(routing).map(([route, page]) => ({
+    route,
+    title: page.page,
+    components: page.components
+      .map(id => byId.get(id))
+      .filter((resolved): resolved is ResolvedComponent => !!resolved),
+  }));
+  files.push(...adapter.renderApp(layouts, pages, context));
+
+  if (Object.keys(selection.sampleData).length > 0) {
+    files.push(file('src/data/sampleData.ts', renderSampleData(selection.sampleData)));
+  }
+
+  // Merge dependencies of every component into package.json
+  const dependencies: Record<string, string> = { ...adapter.dependencies, ...styling.dependencies };
+  const devDependencies: Record<string, string> = { ...adapter.devDependencies, ...styling.devDependencies };
+
+  for (const resolved of components) {
+    for (const dependency of resolved.dependencies) {
+      const { name: packageName, version } = parseDependency(dependency);
+      if (!dependencies[packageName]) {
+        dependencies[packageName] = version;
+      }
+    }
+  }
+
+  const packageJson = {
+    name: toPackageName(name),
+    version: '0.1.0',
+    private: true,
+    ...(adapter.esm ? { type: 'module' } : {}),
+    scripts: adapter.scripts,
+    dependencies: sortKeys(dependencies),
+    devDependencies: sortKeys(devDependencies),
+  };
+
+  files.unshift(file('package.json', JSON.stringify(packageJson, null, 2) + '\n'));
+
+  // Integrations are applied in order on top of the generated files. Generation has no
+  // user-supplied config, so integrations that require one are left out rather than
+  // shipped with a config known to be invalid.
+  const applied: IIntegration[] = [];
+  const skipped: GeneratedProject['skippedIntegrations'] = [];
+  for (const integration of integrations) {
+    const validation = integration.validateConfig({});
+    if (!validation.valid) {
+      skipped.push({ slug: integration.slug, name: integration.name, errors: validation.errors || [] });
+      logger.info('Skipped integration that needs configuration', {
+        projectId,
+        integration: integration.slug,
+        errors: validation.errors,
+      });
+      continue;
+    }
+
+    const result = applyIntegration(files, integration, { applied });
+    files = result.files;
+    applied.push(integration);
+
+    if (result.conflicts.length > 0) {
+      logger.warn('Skipped conflicting integration changes', {
+        projectId,
+        integration: integration.slug,
+        conflicts: result.conflicts,
+      });
+    }
+  }
+
+  logger.info('Project code generated', {
+    projectId,
+    framework: adapter.name,
+    components: components.length,
+    integrations: applied.length,
+    skippedIntegrations: skipped.length,
+    files: files.length,
+  });
+
+  return {
+    id: projectId,
+    name,
+    files,
+    packageJson: JSON.parse(files.find(f => f.path === 'package.json')!.content),
+    setupInstructions: renderSetupInstructions(name, applied, adapter, skipped),
+    qualityScore: 0,
+    integrations: applied.map(integration => integration.slug),
+    skippedIntegrations: skipped,
+    components: components.map(resolved => ({
+      componentId: resolved.component._id.toString(),
+      version: resolved.version,
+    })),
+    techStack,
+  };
+};
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -0,0 +1,192 @@
+import { ComponentSelection, FrameworkTarget, IComponent, IComponentVariant, RequirementAnalysis, StylingSystem } from '../types';
+import Component from '../models/Component';
+import logger from '../utils/logger';
+
+// Categories rendered once around every page rather than placed on a route
+const LAYOUT_CATEGORIES: IComponent['category'][] = ['layout', 'navigation'];
+
+export interface SelectComponentsOptions {
+  framework?: string;
+  styling?: StylingSystem;
+  // Payments provider chosen by the user; 'none' drops the payments integration
+  payments?: string;
+}
+
+// Turn a feature name into a route segment ("user management" -> "/user-management")
+const toRoute = (value: string): string =>
+  '/' + value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const isIncompatible = (candidate: IComponent, selected: IComponent[]): boolean => {
+  const candidateId = candidate._id.toString();
+  return selected.some(component =>
+    component.incompatibleWith.some(id => id.toString() === candidateId) ||
+    candidate.incompatibleWith.some(id => id.toString() === component._id.toString())
+  );
+};
+
+// Variant code is TSX unless declared otherwise, so undeclared variants target the React frameworks
+const DEFAULT_VARIANT_FRAMEWORKS: FrameworkTarget[] = ['nextjs', 'react'];
+
+const variantFrameworks = (component: IComponent, variant: IComponentVariant): FrameworkTarget[] =>
+  variant.frameworks?.length
+    ? variant.frameworks
+    : component.frameworks.length > 0 ? component.frameworks : DEFAULT_VARIANT_FRAMEWORKS;
+
+// First variant written for the project's framework and styling system
+const pickVariant = (component: IComponent, options: SelectComponentsOptions): IComponentVariant | undefined =>
+  component.variants.find(variant =>
+    (!options.framework || variantFrameworks(component, variant).includes(options.framework as FrameworkTarget)) &&
+    (!options.styling || (variant.styling?.length ? variant.styling : ['tailwindcss']).includes(options.styling))
+  );
+
+// Features of the analysis that a component's tags cover
+const coveredFeatures = (component: IComponent, features: string[]): string[] =>
+  features.filter(feature => component.tags.includes(feature.toLowerCase()));
+
+// Parse the JSON stored in `sampleData` into named arrays of records
+const parseSampleData = (component: IComponent): Record<string, any[]> => {
+  if (!component.sampleData) return {};
+
+  try {
+    const data = JSON.parse(component.sampleData);
+    if (Array.isArray(data)) {
+      return { [component.name]: data };
+    }
+    if (data && typeof data === 'object') {
+      return Object.fromEntries(
+        Object.entries(data).filter(([, value]) => Array.isArray(value))
+      ) as Record<string, any[]>;
+    }
+  } catch (error) {
+    logger.warn('Ignoring invalid component sample data', { componentId: component._id.toString() });
+  }
+
+  return {};
+};
+
+// Load candidates from the registry. Matching on both features and integrations can be
+// too narrow, so fall back to feature-only matches before giving up.
+const loadCandidates = async (requirements: RequirementAnalysis): Promise<IComponent[]> => {
+  const candidates = await Component.findForRequirements({
+    features: requirements.features,
+    integrations: requirements.integrations,
+    complexity: requirements.complexity,
+  });
+
+  if (candidates.length >= requirements.estimatedComponents || requirements.integrations.length === 0) {
+    return candidates;
+  }
+
+  const featureMatches = await Component.findForRequirements({
+    features: requirements.features,
+    integrations: [],
+    complexity: requirements.complexity,
+  });
+
+  const seen = new Set(candidates.map(component => component._id.toString()));
+  return [
+    ...candidates,
+    ...featureMatches.filter(component => !seen.has(component._id.toString())),
+  ];
+};
+
+// Select registry components that satisfy the analyzed requirements
+export const selectComponents = async (
+  requirements: RequirementAnalysis,
+  options: SelectComponentsOptions = {}
+): Promise<ComponentSelection> => {
+  const candidates = (await loadCandidates(requirements))
+    .filter(component => pickVariant(component, options) !== undefined)
+    .filter(component => options.payments !== 'none' || !component.requiredIntegrations.includes('payments'));
+
+  const limit = Math.max(1, requirements.estimatedComponents);
+  const selected: IComponent[] = [];
+  const reasons = new Map<string, string>();
+  const uncovered = new Set(requirements.features);
+
+  // First pass: cover every requested feature; second pass: fill up to the estimate
+  // with the most used remaining candidates.
+  for (const pass of ['coverage', 'fill'] as const) {
+    for (const candidate of candidates) {
+      if (selected.length >= limit) break;
+      if (selected.includes(candidate) || isIncompatible(candidate, selected)) continue;
+
+      const covers = coveredFeatures(candidate, Array.from(uncovered));
+      if (pass === 'coverage' && covers.length === 0) continue;
+
+      selected.push(candidate);
+      covers.forEach(feature => uncovered.delete(feature));
+      reasons.set(
+        candidate._id.toString(),
+        covers.length > 0
+          ? `Covers ${covers.join(', ')}`
+          : `Popular ${candidate.category} component compatible with the selection`
+      );
+    }
+  }
+
+  const routing: Record<string, { page: string; components: string[] }> = {
+    '/': { page: 'Home', components: [] },
+  };
+  const layouts: string[] = [];
+
+  for (const component of selected) {
+    const componentId = component._id.toString();
+
+    if (LAYOUT_CATEGORIES.includes(component.category)) {
+      layouts.push(componentId);
+      continue;
+    }
+
+    const feature = coveredFeatures(component, requirements.features)[0];
+    const route = feature ? toRoute(feature) : '/';
+    if (!routing[route]) {
+      routing[route] = { page: feature!.replace(/\b\w/g, char => char.toUpperCase()), components: [] };
+    }
+    routing[route]!.components.push(componentId);
+  }
+
+  const integrations = new Set<string>([
+    ...requirements.integrations,
+    ...selected.flatMap(component => component.requiredIntegrations),
+  ]);
+  // An explicit payments choice overrides what the analysis inferred
+  if (options.payments === 'none') {
+    integrations.delete('payments');
+  } else if (options.payments) {
+    integrations.add('payments');
+  }
+  const requiredIntegrations = Array.from(integrations);
+
+  const sampleData = selected.reduce<Record<string, any[]>>(
+    (data, component) => ({ ...data, ...parseSampleData(component) }),
+    {}
+  );
+
+  // Record usage so popular components rank higher in future selections
+  await Promise.all(selected.map(component => component.incrementUsage()));
+
+  if (uncovered.size > 0) {
+    logger.warn('No registry components found for some features', { features: Array.from(uncovered) });
+  }
+
+  return {
+    components: selected.map(component => ({
+      componentId: component._id.toString(),
+      variantId: pickVariant(component, options)!.id,
+      version: component.version,
+      reasoning: reasons.get(component._id.toString()) || '',
+      customizations: {},
+    })),
+    pageStructure: {
+      pages: Object.keys(routing),
+      layouts,
+      routing,
+    },
+    requiredIntegrations,
+    sampleData,
+    reasoning: uncovered.size > 0
+      ? `Selected ${selected.length} components; no registry match for: ${Array.from(uncovered).join(', ')}.`
+      : `Selected ${selected.length} components covering all ${requirements.features.length} features.`,
+  };
+};
@@ -0,0 +1,179 @@
+import semver from 'semver';
+import {
+  ComponentSelection,
+  ComponentUpgradeConflict,
+  ComponentUpgradeResult,
+  FileChange,
+  GeneratedFile,
+  IProject,
+  OutdatedComponent,
+} from '../types';
+import Component from '../models/Component';
+import { getFrameworkAdapter, renderComponentFiles, resolveComponents } from './codeGeneratorService';
+import { parseDependency } from './dependencyResolver';
+import { applyFileChanges } from '../utils/projectFiles';
+
+export interface UpgradeComponentOptions {
+  // Overwrite locally modified files and dependency pins instead of reporting them
+  force?: boolean;
+}
+
+// Versions that are not valid semver are only compared for equality
+const isOlder = (current: string, latest: string): boolean =>
+  semver.valid(current) && semver.valid(latest) ? semver.lt(current, latest) : current !== latest;
+
+const toSelection = (project: IProject): ComponentSelection['components'] =>
+  project.components.map(({ componentId, variantId, version, customizations }) => ({
+    componentId: componentId.toString(),
+    variantId,
+    version,
+    reasoning: '',
+    customizations,
+  }));
+
+// List the components of a project that are pinned to an older version than the registry's
+export const findOutdatedComponents = async (project: IProject): Promise<OutdatedComponent[]> => {
+  const components = await Component.find({ _id: { $in: project.components.map(entry => entry.componentId) } });
+  const byId = new Map(components.map(component => [component._id.toString(), component]));
+
+  return project.components.flatMap(entry => {
+    const component = byId.get(entry.componentId.toString());
+    if (!component) return [];
+    if (entry.version && !isOlder(entry.version, component.version)) return [];
+
+    return [{
+      componentId: component._id.toString(),
+      name: component.name,
+      variantId: entry.variantId,
+      currentVersion: entry.version || null,
+      latestVersion: component.version,
+      deprecated: component.status === 'deprecated',
+    }];
+  });
+};
+
+// Re-render one component of a project at another published version and work out the
+// file changes. Only files the component renders are touched; a file whose contents no
+// longer match what the pinned version rendered has been edited and is reported as a
+// conflict unless `force` is set.
+export const upgradeComponent = async (
+  project: IProject,
+  files: GeneratedFile[],
+  componentId: string,
+  version: string,
+  options: UpgradeComponentOptions = {}
+): Promise<ComponentUpgradeResult> => {
+  const { force = false } = options;
+  const selection = toSelection(project);
+  const entry = selection.find(selected => selected.componentId === componentId);
+  if (!entry) {
+    throw new Error(`Component ${componentId} is not part of the project`);
+  }
+
+  const [before, after] = await Promise.all([
+    resolveComponents(selection),
+    resolveComponents(selection.map(selected => selected === entry ? { ...selected, version } : selected)),
+  ]);
+  const previous = before.find(resolved => resolved.component._id.toString() === componentId);
+  const upgraded = after.find(resolved => resolved.component._id.toString() === componentId);
+  if (!previous || !upgraded) {
+    throw new Error(`Component ${componentId} no longer exists`);
+  }
+  if (upgraded.version !== version) {
+    throw new Error(`Version ${version} of ${upgraded.component.name} is not published`);
+  }
+
+  // Keep the identifier the project already imports, even if the component was renamed
+  upgraded.identifier = previous.identifier;
+
+  const adapter = getFrameworkAdapter(project.techStack.framework);
+  const oldFiles = new Map(renderComponentFiles(previous, project.name, adapter).map(file => [file.path, file.content]));
+  const newFiles = new Map(renderComponentFiles(upgraded, project.name, adapter).map(file => [file.path, file.content]));
+  const current = new Map(files.map(file => [file.path, file.content]));
+
+  // Without the pinned snapshot the original render is unknown, so every existing file counts as edited
+  const pinned = entry.version !== undefined && previous.version === entry.version;
+
+  const changes: FileChange[] = [];
+  const conflicts: ComponentUpgradeConflict[] = [];
+
+  for (const filePath of new Set([...oldFiles.keys(), ...newFiles.keys()])) {
+    const oldContent = oldFiles.get(filePath);
+    const newContent = newFiles.get(filePath);
+    const currentContent = current.get(filePath);
+
+    if (pinned && oldContent === newContent) continue;
+    if (currentContent === newContent) continue;
+
+    const edited = pinned ? currentContent !== oldContent : currentContent !== undefined;
+    if (edited) {
+      conflicts.push({
+        path: filePath,
+        reason: currentContent === undefined
+          ? 'File was deleted after generation'
+          : 'File was modified after generation',
+      });
+      if (!force) continue;
+    }
+
+    changes.push(newContent === undefined
+      ? { path: filePath, operation: 'delete' }
+      : { path: filePath, operation: currentContent === undefined ? 'create' : 'update', content: newContent });
+  }
+
+  // New or raised dependency ranges go into package.json; ranges the project pinned
+  // itself are left alone unless forced. Dependencies the new version dropped stay,
+  // since other code may rely on them.
+  const dependencies: ComponentUpgradeResult['dependencies'] = [];
+  const oldDependencies = new Map(previous.dependencies.map(dependency => {
+    const { name, version: range } = parseDependency(dependency);
+    return [name, range];
+  }));
+  const manifest = current.get('package.json');
+  let packageJson: Record<string, any> | null = null;
+  try {
+    packageJson = manifest ? JSON.parse(manifest) : null;
+  } catch {
+    packageJson = null;
+  }
+
+  if (!packageJson) {
+    if (upgraded.dependencies.length > 0) {
+      conflicts.push({ path: 'package.json', reason: 'Project has no valid package.json' });
+    }
+  } else {
+    for (const dependency of upgraded.dependencies) {
+      const { name, version: range } = parseDependency(dependency);
+      const section = packageJson.devDependencies?.[name] !== undefined && packageJson.dependencies?.[name] === undefined
+        ? 'devDependencies'
+        : 'dependencies';
+      const installed = packageJson[section]?.[name];
+      if (installed === range) continue;
+
+      if (installed !== undefined && installed !== oldDependencies.get(name)) {
+        conflicts.push({ path: 'package.json', reason: `${name} is ${installed}, ${upgraded.component.name} ${version} requires ${range}` });
+        if (!force) continue;
+      }
+
+      packageJson[section] = Object.fromEntries(
+        Object.entries({ ...packageJson[section], [name]: range }).sort(([a], [b]) => a.localeCompare(b))
+      );
+      dependencies.push({ name, version: range });
+    }
+
+    if (dependencies.length > 0) {
+      changes.push({ path: 'package.json', operation: 'update', content: JSON.stringify(packageJson, null, 2) + '\n' });
+    }
+  }
+
+  const result = applyFileChanges(files, changes);
+
+  return {
+    fromVersion: entry.version || null,
+    toVersion: upgraded.version,
+    files: result.files,
+    changes: result.applied,
+    dependencies,
+    conflicts,
+  };
+};
@@ -0,0 +1,177 @@
+import semver from 'semver';
+import {
+  DependencyResolution,
+  GeneratedProject,
+  ResolutionConflict,
+  ResolvedDependency,
+  ResolvedIntegrationChoice,
+} from '../types';
+import Component from '../models/Component';
+import { resolveIntegrations } from './integrationService';
+
+interface DependencyRequest {
+  version: string;
+  type: ResolvedDependency['type'];
+  requiredBy: string;
+}
+
+// Split a component dependency such as "framer-motion@^10.16.0" or "@scope/pkg@1.2.3"
+export const parseDependency = (dependency: string): { name: string; version: string } => {
+  const at = dependency.lastIndexOf('@');
+  if (at > 0) {
+    return { name: dependency.slice(0, at), version: dependency.slice(at + 1) || 'latest' };
+  }
+  return { name: dependency, version: 'latest' };
+};
+
+// "latest" and "*" accept any version
+const isWildcard = (version: string): boolean => version === 'latest' || version === '*' || version === '';
+
+const compatibleVersions = (a: string, b: string): boolean => {
+  if (a === b || isWildcard(a) || isWildcard(b)) return true;
+
+  const rangeA = semver.validRange(a);
+  const rangeB = semver.validRange(b);
+  // Tags, URLs and other non-semver specifiers only agree with themselves
+  if (!rangeA || !rangeB) return false;
+
+  return semver.intersects(rangeA, rangeB);
+};
+
+// Among compatible ranges, keep the one with the highest lower bound
+const pickVersion = (versions: string[]): string => {
+  const ranges = versions.filter(version => !isWildcard(version));
+  if (ranges.length === 0) return 'latest';
+
+  return ranges.reduce((best, version) => {
+    const bestMin = semver.validRange(best) ? semver.minVersion(best) : null;
+    const min = semver.validRange(version) ? semver.minVersion(version) : null;
+    return bestMin && min && semver.gt(min, bestMin) ? version : best;
+  });
+};
+
+const groupRequests = (requests: DependencyRequest[]): { version: string; requiredBy: string[] }[] => {
+  const byVersion = new Map<string, string[]>();
+  for (const request of requests) {
+    byVersion.set(request.version, [...(byVersion.get(request.version) || []), request.requiredBy]);
+  }
+  return Array.from(byVersion, ([version, requiredBy]) => ({ version, requiredBy: Array.from(new Set(requiredBy)) }));
+};
+
+// Compute the npm dependencies and integrations a set of components needs, and explain
+// why the set cannot be combined when components exclude each other or need
+// incompatible versions of the same package
+export const resolveDependencies = async (
+  componentIds: string[],
+  techStack: GeneratedProject['techStack']
+): Promise<DependencyResolution> => {
+  const ids = Array.from(new Set(componentIds));
+  const found = await Component.find({ _id: { $in: ids } });
+  const byId = new Map(found.map(component => [component._id.toString(), component]));
+  const components = ids.flatMap(id => byId.get(id) ?? []);
+
+  const conflicts: ResolutionConflict[] = [];
+  const warnings: string[] = [];
+
+  const unknown = ids.filter(id => !byId.has(id));
+  if (unknown.length > 0) {
+    conflicts.push({
+      type: 'unknown-component',
+      message: `Unknown component${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}`,
+      components: unknown,
+    });
+  }
+
+  for (const component of components.filter(component => component.status === 'deprecated')) {
+    warnings.push(`${component.name} is deprecated`);
+  }
+
+  // Incompatibility may be declared on either side of a pair
+  for (const [index, component] of components.entries()) {
+    for (const other of components.slice(index + 1)) {
+      const declaredBy = [component, other].filter(candidate => {
+        const target = candidate === component ? other : component;
+        return candidate.incompatibleWith.some(id => id.equals(target._id));
+      });
+      if (declaredBy.length > 0) {
+        conflicts.push({
+          type: 'incompatible',
+          message: `${component.name} cannot be combined with ${other.name} (declared by ${declaredBy.map(c => c.name).join(' and ')})`,
+          components: [component.name, other.name],
+        });
+      }
+    }
+  }
+
+  const requests = new Map<string, DependencyRequest[]>();
+  const request = (name: string, entry: DependencyRequest) => {
+    requests.set(name, [...(requests.get(name) || []), entry]);
+  };
+
+  for (const component of components) {
+    for (const dependency of component.dependencies) {
+      const { name, version } = parseDependency(dependency);
+      request(name, { version, type: 'dependencies', requiredBy: component.name });
+    }
+  }
+
+  // Integrations are chosen per category the same way generation chooses them
+  const requiredBy = new Map<string, string[]>();
+  for (const component of components) {
+    for (const category of component.requiredIntegrations) {
+      requiredBy.set(category, [...(requiredBy.get(category) || []), component.name]);
+    }
+  }
+
+  const chosen = await resolveIntegrations(Array.from(requiredBy.keys()), techStack);
+  const integrations: ResolvedIntegrationChoice[] = Array.from(requiredBy, ([category, names]) => {
+    const integration = chosen.find(candidate => candidate.category === category);
+    if (!integration) {
+      warnings.push(`No compatible ${category} integration is available for ${techStack.framework}`);
+      return { category, requiredBy: names };
+    }
+
+    for (const dependency of integration.dependencies) {
+      request(dependency.name, { version: dependency.version, type: dependency.type, requiredBy: integration.name });
+    }
+    return { category, slug: integration.slug, name: integration.name, requiredBy: names };
+  });
+
+  const dependencies: ResolvedDependency[] = [];
+  for (const [name, entries] of Array.from(requests).sort(([a], [b]) => a.localeCompare(b))) {
+    const versions = groupRequests(entries);
+    const clash = versions.some((a, index) => versions.slice(index + 1).some(b => !compatibleVersions(a.version, b.version)));
+
+    if (clash) {
+      conflicts.push({
+        type: 'version',
+        message: `${name} is required at incompatible versions: ${versions.map(v => `${v.version} (${v.requiredBy.join(', ')})`).join(' vs ')}`,
+        components: Array.from(new Set(versions.flatMap(v => v.requiredBy))),
+        package: name,
+        versions,
+      });
+      continue;
+    }
+
+    dependencies.push({
+      name,
+      version: pickVersion(versions.map(v => v.version)),
+      // Runtime use by anyone wins over a dev-only request
+      type: entries.some(entry => entry.type === 'dependencies') ? 'dependencies' : 'devDependencies',
+      requiredBy: Array.from(new Set(entries.map(entry => entry.requiredBy))),
+    });
+  }
+
+  return {
+    consistent: conflicts.length === 0,
+    components: components.map(component => ({
+      id: component._id.toString(),
+      name: component.name,
+      version: component.version,
+    })),
+    dependencies,
+    integrations,
+    conflicts,
+    warnings,
+  };
+};
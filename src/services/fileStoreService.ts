@@ -0,0 +1,49 @@
+import { GeneratedFile, IProject, ProjectFile } from '../types';
+import FileBlob from '../models/FileBlob';
+
+// Write file contents to the blob store and return the entries to keep on a project
+export const storeFiles = async (files: GeneratedFile[]): Promise<ProjectFile[]> => {
+  const hashes = await FileBlob.storeMany(files.map(file => file.content || ''));
+
+  return files.map((file, index) => ({
+    path: file.path,
+    type: file.type,
+    size: Buffer.byteLength(file.content || '', 'utf8'),
+    hash: hashes[index]!,
+  }));
+};
+
+// Read the contents of file entries back from the blob store.
+// Entries from before the blob store keep their contents inline.
+export const loadFiles = async (entries: ProjectFile[]): Promise<GeneratedFile[]> => {
+  const hashes = entries.filter(entry => entry.hash).map(entry => entry.hash);
+  const blobs = hashes.length > 0 ? await FileBlob.findByHashes(hashes).select('content').lean<{ _id: string; content: string }[]>() : [];
+  const contents = new Map(blobs.map(blob => [blob._id, blob.content]));
+
+  return entries.map(entry => {
+    const content = entry.hash ? contents.get(entry.hash) : entry.content;
+    if (content === undefined) {
+      throw new Error(`Contents of ${entry.path} are missing from the blob store`);
+    }
+    return { path: entry.path, type: entry.type, content };
+  });
+};
+
+// Read a single file's contents
+export const loadFileContent = async (entry: ProjectFile): Promise<string> => {
+  const [file] = await loadFiles([entry]);
+  return file!.content;
+};
+
+// Replace a project's files, storing their contents and recomputing its stats.
+// The caller saves the project.
+export const setProjectFiles = async (project: IProject, files: GeneratedFile[]): Promise<void> => {
+  const sourceFiles = files.filter(file => file.type === 'file');
+
+  project.files = await storeFiles(files);
+  project.stats = {
+    totalFiles: sourceFiles.length,
+    totalSize: sourceFiles.reduce((size, file) => size + Buffer.byteLength(file.content, 'utf8'), 0),
+    linesOfCode: sourceFiles.reduce((lines, file) => lines + file.content.split('\n').length, 0),
+  };
+};
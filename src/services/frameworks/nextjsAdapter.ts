@@ -0,0 +1,169 @@
+import { FrameworkAdapter, FrameworkRenderContext, PageDefinition, ResolvedComponent } from '../../types';
+import {
+  escapeMarkup,
+  file,
+  jsxBinding,
+  pageHeading,
+  renderComponentBody,
+  renderJson,
+  renderLayoutTree,
+  toObjectLiteral,
+  toPascalCase,
+} from './shared';
+
+const STYLED_COMPONENTS_REGISTRY = `'use client';
+
+import React, { useState } from 'react';
+import { useServerInsertedHTML } from 'next/navigation';
+import { ServerStyleSheet, StyleSheetManager } from 'styled-components';
+
+// Collects styles rendered on the server and injects them into the document head
+export default function StyledComponentsRegistry({ children }: { children: React.ReactNode }) {
+  const [styleSheet] = useState(() => new ServerStyleSheet());
+
+  useServerInsertedHTML(() => {
+    const styles = styleSheet.getStyleElement();
+    styleSheet.instance.clearTag();
+    return <>{styles}</>;
+  });
+
+  if (typeof window !== 'undefined') return <>{children}</>;
+
+  return <StyleSheetManager sheet={styleSheet.instance}>{children}</StyleSheetManager>;
+}
+`;
+
+const componentImport = (identifier: string): string => `@/components/${identifier}`;
+
+const renderImports = (components: ResolvedComponent[]): string =>
+  components.map(({ identifier }) => `import ${identifier} from '${componentImport(identifier)}';`).join('\n');
+
+const renderPage = (page: PageDefinition, context: FrameworkRenderContext): string => {
+  const functionName = `${toPascalCase(page.title)}Page`;
+  const heading = escapeMarkup(pageHeading(page, context.projectName));
+  const body = renderComponentBody(page.components, '      ', jsxBinding, `<h1 className="${context.classes.heading}">${heading}</h1>`);
+  const imports = renderImports(page.components);
+
+  return `${imports ? `${imports}\n\n` : ''}export default function ${functionName}() {
+  return (
+    <main className="${context.classes.main}">
+${body}
+    </main>
+  );
+}
+`;
+};
+
+const renderLayout = (layouts: ResolvedComponent[], context: FrameworkRenderContext): string => {
+  const styled = context.styling === 'styled-components';
+  const imports = [
+    renderImports(layouts),
+    styled ? `import StyledComponentsRegistry from '@/lib/registry';` : '',
+  ].filter(Boolean).join('\n');
+  const content = styled
+    ? `        <StyledComponentsRegistry>\n${renderLayoutTree(layouts, 5, indent => `${indent}{children}`, jsxBinding)}\n        </StyledComponentsRegistry>`
+    : renderLayoutTree(layouts, 4, indent => `${indent}{children}`, jsxBinding);
+
+  return `import type { Metadata } from 'next';
+${imports ? `${imports}\n` : ''}import './globals.css';
+
+export const metadata: Metadata = {
+  title: ${JSON.stringify(context.projectName)},
+  description: ${JSON.stringify(`${context.projectName} - generated with AI App Builder`)},
+};
+
+export default function RootLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <html lang="en">
+      <body>
+${content}
+      </body>
+    </html>
+  );
+}
+`;
+};
+
+// Next.js 14 with the app router
+export const nextjsAdapter: FrameworkAdapter = {
+  name: 'nextjs',
+  label: 'Next.js',
+  stylings: ['tailwindcss', 'css-modules', 'styled-components'],
+  componentExtension: 'tsx',
+  componentsDirectory: 'src/components',
+  globalStylesPath: 'src/app/globals.css',
+  tailwindContent: ['./src/**/*.{ts,tsx}'],
+  esm: false,
+  devUrl: 'http://localhost:3000',
+  scripts: {
+    dev: 'next dev',
+    build: 'next build',
+    start: 'next start',
+    lint: 'next lint',
+  },
+  dependencies: {
+    next: '^14.0.0',
+    react: '^18.2.0',
+    'react-dom': '^18.2.0',
+  },
+  devDependencies: {
+    '@types/node': '^20.10.0',
+    '@types/react': '^18.2.0',
+    '@types/react-dom': '^18.2.0',
+    eslint: '^8.56.0',
+    'eslint-config-next': '^14.0.0',
+    typescript: '^5.3.0',
+  },
+  componentImport,
+
+  renderSkeleton: context => [
+    file('tsconfig.json', renderJson({
+      compilerOptions: {
+        target: 'ES2017',
+        lib: ['dom', 'dom.iterable', 'esnext'],
+        allowJs: false,
+        skipLibCheck: true,
+        strict: true,
+        noEmit: true,
+        esModuleInterop: true,
+        module: 'esnext',
+        moduleResolution: 'bundler',
+        resolveJsonModule: true,
+        isolatedModules: true,
+        jsx: 'preserve',
+        incremental: true,
+        plugins: [{ name: 'next' }],
+        paths: { '@/*': ['./src/*'] },
+      },
+      include: ['next-env.d.ts', '**/*.ts', '**/*.tsx', '.next/types/**/*.ts'],
+      exclude: ['node_modules'],
+    })),
+    file('next-env.d.ts', '/// <reference types="next" />\n/// <reference types="next/image-types/global" />\n'),
+    file('next.config.js', `/** @type {import('next').NextConfig} */
+const nextConfig = ${toObjectLiteral({
+      reactStrictMode: true,
+      ...(context.styling === 'styled-components' ? { compiler: { styledComponents: true } } : {}),
+    })};
+
+module.exports = nextConfig;
+`),
+    ...(context.styling === 'styled-components' ? [file('src/lib/registry.tsx', STYLED_COMPONENTS_REGISTRY)] : []),
+    file('.eslintrc.json', renderJson({ extends: 'next/core-web-vitals' })),
+    file('.gitignore', ['node_modules', '.next', 'out', '.env*.local', 'next-env.d.ts', ''].join('\n')),
+    file('src/app/not-found.tsx', `export default function NotFound() {
+  return (
+    <main className="${context.classes.centered}">
+      <p className="${context.classes.muted}">This page could not be found.</p>
+    </main>
+  );
+}
+`),
+  ],
+
+  renderApp: (layouts, pages, context) => [
+    file('src/app/layout.tsx', renderLayout(layouts, context)),
+    ...pages.map(page =>
+      file(`${page.route === '/' ? 'src/app' : `src/app${page.route}`}/page.tsx`, renderPage(page, context))
+    ),
+  ],
+};
@@ -0,0 +1,100 @@
+import { GeneratedFile, ResolvedComponent } from '../../types';
+
+// Helpers shared by the framework adapters and the code generator
+
+export const file = (path: string, content: string): GeneratedFile => ({ path, content, type: 'file' });
+
+export const toPascalCase = (value: string): string => {
+  const identifier = value
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(identifier) ? identifier : `Component${identifier}`;
+};
+
+// JSON with unquoted identifier keys, for generated JavaScript config files
+export const toObjectLiteral = (value: Record<string, any>): string =>
+  JSON.stringify(value, null, 2).replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:');
+
+export const renderTemplate = (template: string, variables: Record<string, string>): string =>
+  template.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (placeholder, key: string) =>
+    variables[key] !== undefined ? variables[key]! : placeholder
+  );
+
+export const renderJson = (value: unknown): string => JSON.stringify(value, null, 2) + '\n';
+
+// Props rendered for a component: variant defaults overridden by customizations
+export const componentProps = (resolved: ResolvedComponent): Record<string, any> => {
+  const defaults: Record<string, any> = {};
+  for (const prop of resolved.variant.props) {
+    if (prop.defaultValue === undefined) continue;
+    try {
+      defaults[prop.name] = JSON.parse(prop.defaultValue);
+    } catch {
+      defaults[prop.name] = prop.defaultValue;
+    }
+  }
+  return { ...defaults, ...(resolved.customizations.props || {}) };
+};
+
+// Name of the script variable holding a component's props in Vue/Svelte templates
+export const propsVariable = (resolved: ResolvedComponent): string =>
+  `${resolved.identifier.charAt(0).toLowerCase()}${resolved.identifier.slice(1)}Props`;
+
+// `const heroProps = {...};` for every component that receives props
+export const renderPropsDeclarations = (components: ResolvedComponent[], indent: string = ''): string[] =>
+  components
+    .filter(resolved => Object.keys(componentProps(resolved)).length > 0)
+    .map(resolved => `${indent}const ${propsVariable(resolved)} = ${JSON.stringify(componentProps(resolved))};`);
+
+// Render a component element; `bind` turns the props variable into the template's spread syntax
+export const renderElement = (
+  resolved: ResolvedComponent,
+  indent: string,
+  bind: (resolved: ResolvedComponent) => string,
+  children?: string
+): string => {
+  const spread = Object.keys(componentProps(resolved)).length > 0 ? ` ${bind(resolved)}` : '';
+  if (children) {
+    return `${indent}<${resolved.identifier}${spread}>\n${children}\n${indent}</${resolved.identifier}>`;
+  }
+  return `${indent}<${resolved.identifier}${spread} />`;
+};
+
+// Props spread syntax for each template language
+export const jsxBinding = (resolved: ResolvedComponent): string => `{...${JSON.stringify(componentProps(resolved))}}`;
+export const vueBinding = (resolved: ResolvedComponent): string => `v-bind="${propsVariable(resolved)}"`;
+export const svelteBinding = (resolved: ResolvedComponent): string => `{...${propsVariable(resolved)}}`;
+
+// Nest layout components so the first one is outermost and `content` innermost.
+// `content` receives the indentation of its nesting level.
+export const renderLayoutTree = (
+  layouts: ResolvedComponent[],
+  depth: number,
+  content: (indent: string) => string,
+  bind: (resolved: ResolvedComponent) => string
+): string => {
+  const indent = '  '.repeat(depth);
+  const [outer, ...inner] = layouts;
+  if (!outer) return content(indent);
+  return renderElement(outer, indent, bind, renderLayoutTree(inner, depth + 1, content, bind));
+};
+
+export const renderComponentBody = (
+  components: ResolvedComponent[],
+  indent: string,
+  bind: (resolved: ResolvedComponent) => string,
+  fallback: string
+): string =>
+  components.length > 0
+    ? components.map(component => renderElement(component, indent, bind)).join('\n')
+    : `${indent}${fallback}`;
+
+export const pageHeading = (page: { route: string; title: string }, projectName: string): string =>
+  page.route === '/' ? projectName : page.title;
+
+// Escape text placed inside generated markup
+export const escapeMarkup = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/{/g, '&#123;').replace(/}/g, '&#125;');
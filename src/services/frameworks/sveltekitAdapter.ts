@@ -0,0 +1,154 @@
+import { FrameworkAdapter, FrameworkRenderContext, PageDefinition, ResolvedComponent } from '../../types';
+import {
+  escapeMarkup,
+  file,
+  pageHeading,
+  renderComponentBody,
+  renderJson,
+  renderLayoutTree,
+  renderPropsDeclarations,
+  svelteBinding,
+} from './shared';
+
+const componentImport = (identifier: string): string => `$lib/components/${identifier}/${identifier}.svelte`;
+
+// `<script>` block importing components and declaring their props; omitted when empty
+const renderScript = (components: ResolvedComponent[], extraImports: string[] = []): string => {
+  const imports = [
+    ...extraImports,
+    ...components.map(({ identifier }) => `import ${identifier} from '${componentImport(identifier)}';`),
+  ].map(line => `  ${line}`);
+  const declarations = renderPropsDeclarations(components, '  ');
+  if (imports.length === 0 && declarations.length === 0) return '';
+
+  return `<script lang="ts">
+${[imports.join('\n'), declarations.join('\n')].filter(Boolean).join('\n\n')}
+</script>
+
+`;
+};
+
+const renderPage = (page: PageDefinition, context: FrameworkRenderContext): string => {
+  const heading = escapeMarkup(pageHeading(page, context.projectName));
+  const body = renderComponentBody(page.components, '  ', svelteBinding, `<h1 class="${context.classes.heading}">${heading}</h1>`);
+  const head = page.route === '/'
+    ? ''
+    : `<svelte:head>\n  <title>${escapeMarkup(page.title)} | ${escapeMarkup(context.projectName)}</title>\n</svelte:head>\n\n`;
+
+  return `${renderScript(page.components)}${head}<main class="${context.classes.main}">
+${body}
+</main>
+`;
+};
+
+const renderLayout = (layouts: ResolvedComponent[], context: FrameworkRenderContext): string =>
+  `${renderScript(layouts, [`import '../app.css';`])}<svelte:head>
+  <title>${escapeMarkup(context.projectName)}</title>
+</svelte:head>
+
+${renderLayoutTree(layouts, 0, indent => `${indent}<slot />`, svelteBinding)}
+`;
+
+// SvelteKit 2 with file-based routing
+export const sveltekitAdapter: FrameworkAdapter = {
+  name: 'svelte',
+  label: 'SvelteKit',
+  stylings: ['tailwindcss', 'css-modules'],
+  componentExtension: 'svelte',
+  componentsDirectory: 'src/lib/components',
+  globalStylesPath: 'src/app.css',
+  tailwindContent: ['./src/**/*.{html,js,svelte,ts}'],
+  esm: true,
+  devUrl: 'http://localhost:5173',
+  scripts: {
+    dev: 'vite dev',
+    build: 'vite build',
+    preview: 'vite preview',
+    check: 'svelte-kit sync && svelte-check --tsconfig ./tsconfig.json',
+  },
+  dependencies: {},
+  devDependencies: {
+    '@sveltejs/adapter-auto': '^3.0.0',
+    '@sveltejs/kit': '^2.0.0',
+    '@sveltejs/vite-plugin-svelte': '^3.0.0',
+    svelte: '^4.2.0',
+    'svelte-check': '^3.6.0',
+    typescript: '^5.3.0',
+    vite: '^5.1.0',
+  },
+  componentImport,
+
+  renderSkeleton: context => [
+    file('svelte.config.js', `import adapter from '@sveltejs/adapter-auto';
+import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+
+/** @type {import('@sveltejs/kit').Config} */
+const config = {
+  preprocess: vitePreprocess(),
+  kit: {
+    adapter: adapter(),
+  },
+};
+
+export default config;
+`),
+    file('vite.config.ts', `import { sveltekit } from '@sveltejs/kit/vite';
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  plugins: [sveltekit()],
+});
+`),
+    file('tsconfig.json', renderJson({
+      extends: './.svelte-kit/tsconfig.json',
+      compilerOptions: {
+        allowJs: true,
+        checkJs: true,
+        esModuleInterop: true,
+        forceConsistentCasingInFileNames: true,
+        resolveJsonModule: true,
+        skipLibCheck: true,
+        sourceMap: true,
+        strict: true,
+        moduleResolution: 'bundler',
+      },
+    })),
+    file('src/app.html', `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    %sveltekit.head%
+  </head>
+  <body data-sveltekit-preload-data="hover">
+    <div style="display: contents">%sveltekit.body%</div>
+  </body>
+</html>
+`),
+    file('src/app.d.ts', `// See https://kit.svelte.dev/docs/types#app
+declare global {
+  namespace App {}
+}
+
+export {};
+`),
+    file('.gitignore', ['node_modules', '.svelte-kit', 'build', '.env*.local', ''].join('\n')),
+    file('src/routes/+error.svelte', `<script lang="ts">
+  import { page } from '$app/stores';
+</script>
+
+<main class="${context.classes.centered}">
+  <p class="${context.classes.muted}">
+    {$page.status === 404 ? 'This page could not be found.' : $page.error?.message}
+  </p>
+</main>
+`),
+  ],
+
+  renderApp: (layouts, pages, context) => [
+    file('src/routes/+layout.svelte', renderLayout(layouts, context)),
+    ...pages.map(page =>
+      file(`${page.route === '/' ? 'src/routes' : `src/routes${page.route}`}/+page.svelte`, renderPage(page, context))
+    ),
+  ],
+};
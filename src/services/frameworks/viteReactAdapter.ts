@@ -0,0 +1,161 @@
+import { FrameworkAdapter, FrameworkRenderContext, PageDefinition, ResolvedComponent } from '../../types';
+import {
+  escapeMarkup,
+  file,
+  jsxBinding,
+  pageHeading,
+  renderComponentBody,
+  renderJson,
+  renderLayoutTree,
+  toPascalCase,
+} from './shared';
+
+const componentImport = (identifier: string): string => `@/components/${identifier}`;
+
+const renderImports = (components: ResolvedComponent[]): string =>
+  components.map(({ identifier }) => `import ${identifier} from '${componentImport(identifier)}';`).join('\n');
+
+const pageComponentName = (page: PageDefinition): string => `${toPascalCase(page.title)}Page`;
+
+const renderPage = (page: PageDefinition, context: FrameworkRenderContext): string => {
+  const heading = escapeMarkup(pageHeading(page, context.projectName));
+  const body = renderComponentBody(page.components, '      ', jsxBinding, `<h1 className="${context.classes.heading}">${heading}</h1>`);
+  const imports = renderImports(page.components);
+
+  return `${imports ? `${imports}\n\n` : ''}export default function ${pageComponentName(page)}() {
+  return (
+    <main className="${context.classes.main}">
+${body}
+    </main>
+  );
+}
+`;
+};
+
+const renderApp = (layouts: ResolvedComponent[], pages: PageDefinition[]): string => {
+  const routes = [
+    ...pages.map(page => `<Route path="${page.route}" element={<${pageComponentName(page)} />} />`),
+    '<Route path="*" element={<NotFoundPage />} />',
+  ];
+  const imports = [
+    `import { Route, Routes } from 'react-router-dom';`,
+    renderImports(layouts),
+    ...pages.map(page => `import ${pageComponentName(page)} from './pages/${pageComponentName(page)}';`),
+    `import NotFoundPage from './pages/NotFoundPage';`,
+  ].filter(Boolean).join('\n');
+
+  return `${imports}
+
+export default function App() {
+  return (
+${renderLayoutTree(layouts, 2, indent => [`${indent}<Routes>`, ...routes.map(route => `${indent}  ${route}`), `${indent}</Routes>`].join('\n'), jsxBinding)}
+  );
+}
+`;
+};
+
+// React 18 single-page app built with Vite and routed with React Router
+export const viteReactAdapter: FrameworkAdapter = {
+  name: 'react',
+  label: 'React (Vite)',
+  stylings: ['tailwindcss', 'css-modules', 'styled-components'],
+  componentExtension: 'tsx',
+  componentsDirectory: 'src/components',
+  globalStylesPath: 'src/index.css',
+  tailwindContent: ['./index.html', './src/**/*.{ts,tsx}'],
+  esm: true,
+  devUrl: 'http://localhost:5173',
+  scripts: {
+    dev: 'vite',
+    build: 'tsc && vite build',
+    preview: 'vite preview',
+  },
+  dependencies: {
+    react: '^18.2.0',
+    'react-dom': '^18.2.0',
+    'react-router-dom': '^6.22.0',
+  },
+  devDependencies: {
+    '@types/node': '^20.10.0',
+    '@types/react': '^18.2.0',
+    '@types/react-dom': '^18.2.0',
+    '@vitejs/plugin-react': '^4.2.0',
+    typescript: '^5.3.0',
+    vite: '^5.1.0',
+  },
+  componentImport,
+
+  renderSkeleton: context => [
+    file('index.html', `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeMarkup(context.projectName)}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`),
+    file('vite.config.ts', `import { fileURLToPath, URL } from 'node:url';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+});
+`),
+    file('tsconfig.json', renderJson({
+      compilerOptions: {
+        target: 'ES2020',
+        lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        skipLibCheck: true,
+        resolveJsonModule: true,
+        isolatedModules: true,
+        noEmit: true,
+        jsx: 'react-jsx',
+        strict: true,
+        paths: { '@/*': ['./src/*'] },
+      },
+      include: ['src'],
+    })),
+    file('src/vite-env.d.ts', '/// <reference types="vite/client" />\n'),
+    file('.gitignore', ['node_modules', 'dist', '.env*.local', ''].join('\n')),
+    file('src/pages/NotFoundPage.tsx', `export default function NotFoundPage() {
+  return (
+    <main className="${context.classes.centered}">
+      <p className="${context.classes.muted}">This page could not be found.</p>
+    </main>
+  );
+}
+`),
+  ],
+
+  renderApp: (layouts, pages, context) => [
+    file('src/main.tsx', `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router-dom';
+import App from './App';
+import './index.css';
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  </StrictMode>
+);
+`),
+    file('src/App.tsx', renderApp(layouts, pages)),
+    ...pages.map(page => file(`src/pages/${pageComponentName(page)}.tsx`, renderPage(page, context))),
+  ],
+};
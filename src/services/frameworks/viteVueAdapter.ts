@@ -0,0 +1,174 @@
+import { FrameworkAdapter, FrameworkRenderContext, PageDefinition, ResolvedComponent } from '../../types';
+import {
+  escapeMarkup,
+  file,
+  pageHeading,
+  renderComponentBody,
+  renderJson,
+  renderLayoutTree,
+  renderPropsDeclarations,
+  toPascalCase,
+  vueBinding,
+} from './shared';
+
+const componentImport = (identifier: string): string => `@/components/${identifier}/${identifier}.vue`;
+
+const viewName = (page: PageDefinition): string => `${toPascalCase(page.title)}View`;
+
+const routeName = (page: PageDefinition): string =>
+  page.route === '/' ? 'home' : page.route.slice(1).replace(/\//g, '-');
+
+// `<script setup>` block importing components and declaring their props; omitted when empty
+const renderScriptSetup = (components: ResolvedComponent[], extraImports: string[] = []): string => {
+  const imports = [
+    ...extraImports,
+    ...components.map(({ identifier }) => `import ${identifier} from '${componentImport(identifier)}';`),
+  ];
+  const declarations = renderPropsDeclarations(components);
+  if (imports.length === 0 && declarations.length === 0) return '';
+
+  return `<script setup lang="ts">
+${[imports.join('\n'), declarations.join('\n')].filter(Boolean).join('\n\n')}
+</script>
+
+`;
+};
+
+const renderView = (page: PageDefinition, context: FrameworkRenderContext): string => {
+  const heading = escapeMarkup(pageHeading(page, context.projectName));
+  const body = renderComponentBody(page.components, '    ', vueBinding, `<h1 class="${context.classes.heading}">${heading}</h1>`);
+
+  return `${renderScriptSetup(page.components)}<template>
+  <main class="${context.classes.main}">
+${body}
+  </main>
+</template>
+`;
+};
+
+const renderRouter = (pages: PageDefinition[]): string => {
+  const routes = [
+    ...pages.map(page =>
+      `    { path: '${page.route}', name: '${routeName(page)}', component: () => import('@/views/${viewName(page)}.vue') },`
+    ),
+    `    { path: '/:pathMatch(.*)*', name: 'not-found', component: () => import('@/views/NotFoundView.vue') },`,
+  ];
+
+  return `import { createRouter, createWebHistory } from 'vue-router';
+
+const router = createRouter({
+  history: createWebHistory(import.meta.env.BASE_URL),
+  routes: [
+${routes.join('\n')}
+  ],
+});
+
+export default router;
+`;
+};
+
+// Vue 3 single-page app built with Vite and routed with Vue Router
+export const viteVueAdapter: FrameworkAdapter = {
+  name: 'vue',
+  label: 'Vue 3 (Vite)',
+  stylings: ['tailwindcss', 'css-modules'],
+  componentExtension: 'vue',
+  componentsDirectory: 'src/components',
+  globalStylesPath: 'src/assets/main.css',
+  tailwindContent: ['./index.html', './src/**/*.{vue,ts}'],
+  esm: true,
+  devUrl: 'http://localhost:5173',
+  scripts: {
+    dev: 'vite',
+    build: 'vue-tsc --noEmit && vite build',
+    preview: 'vite preview',
+  },
+  dependencies: {
+    vue: '^3.4.0',
+    'vue-router': '^4.3.0',
+  },
+  devDependencies: {
+    '@types/node': '^20.10.0',
+    '@vitejs/plugin-vue': '^5.0.0',
+    typescript: '^5.3.0',
+    vite: '^5.1.0',
+    'vue-tsc': '^2.0.0',
+  },
+  componentImport,
+
+  renderSkeleton: context => [
+    file('index.html', `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeMarkup(context.projectName)}</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>
+`),
+    file('vite.config.ts', `import { fileURLToPath, URL } from 'node:url';
+import { defineConfig } from 'vite';
+import vue from '@vitejs/plugin-vue';
+
+export default defineConfig({
+  plugins: [vue()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+});
+`),
+    file('tsconfig.json', renderJson({
+      compilerOptions: {
+        target: 'ES2020',
+        lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        skipLibCheck: true,
+        resolveJsonModule: true,
+        isolatedModules: true,
+        noEmit: true,
+        jsx: 'preserve',
+        strict: true,
+        paths: { '@/*': ['./src/*'] },
+      },
+      include: ['src/**/*.ts', 'src/**/*.vue'],
+    })),
+    file('src/env.d.ts', `/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue';
+  const component: DefineComponent<object, object, any>;
+  export default component;
+}
+`),
+    file('.gitignore', ['node_modules', 'dist', '.env*.local', ''].join('\n')),
+    file('src/views/NotFoundView.vue', `<template>
+  <main class="${context.classes.centered}">
+    <p class="${context.classes.muted}">This page could not be found.</p>
+  </main>
+</template>
+`),
+  ],
+
+  renderApp: (layouts, pages, context) => [
+    file('src/main.ts', `import { createApp } from 'vue';
+import App from './App.vue';
+import router from './router';
+import './assets/main.css';
+
+createApp(App).use(router).mount('#app');
+`),
+    file('src/router/index.ts', renderRouter(pages)),
+    file('src/App.vue', `${renderScriptSetup(layouts, [`import { RouterView } from 'vue-router';`])}<template>
+${renderLayoutTree(layouts, 1, indent => `${indent}<RouterView />`, vueBinding)}
+</template>
+`),
+    ...pages.map(page => file(`src/views/${viewName(page)}.vue`, renderView(page, context))),
+  ],
+};
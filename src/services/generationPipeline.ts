@@ -0,0 +1,278 @@
+import { Types } from 'mongoose';
+import { GenerationStep, IChat, IGenerationJob, IProject } from '../types';
+import Project from '../models/Project';
+import Chat from '../models/Chat';
+import GenerationJob, { LeaseLostError } from '../models/GenerationJob';
+import ProjectRevision from '../models/ProjectRevision';
+import { analyzeRequirements } from './aiService';
+import { selectComponents } from './componentService';
+import { generateProject } from './codeGeneratorService';
+import { refreshQualityReport } from './qualityService';
+import { setProjectFiles } from './fileStoreService';
+import logger from '../utils/logger';
+
+export const GENERATION_STEPS: GenerationStep[] = ['analyze', 'select', 'generate', 'quality'];
+
+// Thrown between steps when the user cancelled the generation
+export class GenerationCancelledError extends Error {
+  public step?: GenerationStep;
+
+  constructor(step?: GenerationStep) {
+    super('Generation was cancelled');
+    this.name = 'GenerationCancelledError';
+    this.step = step;
+  }
+}
+
+interface StepContext {
+  job: IGenerationJob;
+  project: IProject;
+  chat: IChat | null;
+}
+
+// Helper function to generate project name from user input
+export function generateProjectName(userInput: string): string {
+  const words = userInput.split(' ').filter(word => word.length > 2);
+  if (words.length === 0) return 'Generated App';
+
+  // Take first 3 meaningful words and capitalize them
+  const nameWords = words.slice(0, 3).map(word =>
+    word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+  );
+
+  return nameWords.join(' ') + ' App';
+}
+
+// Step 1: Analyze requirements (10-25%)
+const analyzeStep = async ({ job, project, chat }: StepContext): Promise<void> => {
+  project.status = STEP_STATUS.analyze;
+  await project.updateProgress(10, 'Analyzing requirements...');
+  await chat?.updateContext({
+    generationState: { step: 'analyzing', progress: 10, errors: [] }
+  });
+
+  // Analyze requirements using AI service
+  const analysis = await analyzeRequirements(job.userInput);
+  const { reasoning, ...requirements } = analysis;
+
+  // Update project with requirements
+  project.requirements = requirements;
+  project.name = generateProjectName(job.userInput);
+  await project.save();
+  await job.completeStep('analyze', { analysis });
+
+  await chat?.updateContext({
+    projectRequirements: {
+      features: requirements.features,
+      integrations: requirements.integrations,
+      complexity: requirements.complexity,
+    },
+  });
+
+  await project.updateProgress(25, 'Selecting optimal components...');
+  await chat?.addMessage({
+    role: 'assistant',
+    content: `I've analyzed your requirements and identified the following features: ${requirements.features.join(', ')}. ${reasoning} Now selecting the best components...`,
+    metadata: { tokens: 50 }
+  });
+};
+
+// Step 2: Select components (25-60%)
+const selectStep = async ({ job, project, chat }: StepContext): Promise<void> => {
+  const analysis = job.state.analysis;
+  if (!analysis) {
+    throw new Error('Cannot select components before requirements are analyzed');
+  }
+
+  project.status = STEP_STATUS.select;
+  await project.updateProgress(30, 'Selecting optimal components...');
+  const selection = await selectComponents(analysis, {
+    framework: project.techStack.framework,
+    styling: project.techStack.styling,
+    payments: project.techStack.payments,
+  });
+
+  project.components = selection.components.map(component => ({
+    componentId: new Types.ObjectId(component.componentId),
+    variantId: component.variantId,
+    version: component.version,
+    customizations: component.customizations || {},
+  }));
+  project.integrations = selection.requiredIntegrations;
+  await project.save();
+  await job.completeStep('select', { selection });
+
+  await chat?.updateContext({
+    selectedComponents: selection.components.map(component => component.componentId),
+  });
+
+  project.status = 'generating';
+  await project.updateProgress(60, 'Generating application code...');
+  await chat?.addMessage({
+    role: 'assistant',
+    content: `Selected ${selection.components.length} components. ${selection.reasoning} Now generating your application code...`,
+    metadata: { tokens: 30 }
+  });
+};
+
+// Step 3: Generate code (60-90%)
+const generateStep = async ({ job, project, chat }: StepContext): Promise<void> => {
+  const selection = job.state.selection;
+  if (!selection) {
+    throw new Error('Cannot generate code before components are selected');
+  }
+
+  project.status = STEP_STATUS.generate;
+  const generated = await generateProject({
+    projectId: project._id.toString(),
+    name: project.name,
+    selection,
+    techStack: project.techStack,
+  });
+
+  await setProjectFiles(project, generated.files);
+  project.packageJson = generated.packageJson;
+  project.integrations = generated.integrations;
+  // Record the exact versions rendered, including for selections made before pinning
+  for (const component of project.components) {
+    const rendered = generated.components.find(entry => entry.componentId === component.componentId.toString());
+    if (rendered) component.version = rendered.version;
+  }
+  await project.save();
+  await job.completeStep('generate');
+
+  // Integrations that need a config were left out; tell the user how to add them
+  if (generated.skippedIntegrations.length > 0) {
+    await chat?.addMessage({
+      role: 'assistant',
+      content: `These integrations need configuration and were not added: ${generated.skippedIntegrations.map(integration => integration.name).join(', ')}. Add them to the project once you have their settings.`,
+      metadata: { tokens: 30 }
+    });
+  }
+
+  await project.updateProgress(90, 'Running final quality checks...');
+};
+
+// Step 4: Quality checks (90-100%)
+const qualityStep = async ({ job, project, chat }: StepContext): Promise<void> => {
+  await refreshQualityReport(project);
+  await project.save();
+  // A retried quality step may already have taken the snapshot
+  if (!(await ProjectRevision.exists({ projectId: project._id, revision: project.revision }))) {
+    await ProjectRevision.snapshot(project, { source: 'generation', summary: job.userInput });
+  }
+
+  // Send the final message before the complete event so streaming clients receive it
+  if (chat) {
+    await chat.markCompleted();
+    await chat.addMessage({
+      role: 'assistant',
+      content: `🎉 Your application "${project.name}" has been generated successfully! Quality score: ${project.qualityScore}/100. You can now download and run your project.`,
+      metadata: { tokens: 40 }
+    });
+  }
+
+  // Record the step as the lease owner first, so a project never reads as complete
+  // while its job is retried or failed
+  await job.completeStep('quality');
+  await project.markComplete();
+};
+
+const STEP_HANDLERS: Record<GenerationStep, (context: StepContext) => Promise<void>> = {
+  analyze: analyzeStep,
+  select: selectStep,
+  generate: generateStep,
+  quality: qualityStep,
+};
+
+// Project status shown while a step is pending
+export const STEP_STATUS: Record<GenerationStep, IProject['status']> = {
+  analyze: 'analyzing',
+  select: 'selecting',
+  generate: 'generating',
+  quality: 'generating',
+};
+
+// Steps still to run for a job, resuming after the last persisted step
+export const remainingSteps = (job: IGenerationJob): GenerationStep[] => {
+  if (!job.lastCompletedStep) return GENERATION_STEPS;
+  return GENERATION_STEPS.slice(GENERATION_STEPS.indexOf(job.lastCompletedStep) + 1);
+};
+
+// Record how a job ended on its project: append to the attempt history and move
+// the project into its final status (completion is handled by the quality step)
+export const finalizeJob = async (
+  job: IGenerationJob,
+  outcome: 'complete' | 'failed' | 'cancelled',
+  error?: Error & { step?: GenerationStep }
+): Promise<void> => {
+  const project = await Project.findById(job.projectId);
+  if (!project) return;
+
+  await project.recordAttempt({
+    jobId: job._id,
+    status: outcome,
+    failedStep: outcome === 'complete' ? undefined : error?.step,
+    error: outcome === 'failed' ? error?.message : undefined,
+    startedAt: job.createdAt,
+  });
+
+  if (outcome === 'failed') {
+    await project.markError(error || new Error('Generation failed'));
+  } else if (outcome === 'cancelled') {
+    const chat = job.chatId ? await Chat.findById(job.chatId) : null;
+    await chat?.addMessage({
+      role: 'assistant',
+      content: 'Generation was cancelled. You can retry it at any time to continue from where it stopped.',
+      metadata: { tokens: 20 }
+    });
+    await project.markCancelled();
+  }
+};
+
+// Run (or resume) the generation pipeline for a claimed job.
+// Errors are tagged with the step that failed and rethrown to the worker. The worker
+// aborts `signal` when it loses the job's lease; no further step runs after that.
+export const runGenerationJob = async (job: IGenerationJob, signal?: AbortSignal): Promise<void> => {
+  const project = await Project.findById(job.projectId);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const chat = job.chatId ? await Chat.findById(job.chatId) : null;
+  const steps = remainingSteps(job);
+
+  logger.info('Running generation job', {
+    jobId: job._id.toString(),
+    projectId: project._id.toString(),
+    attempt: job.attempts,
+    resumeFrom: steps[0],
+  });
+
+  for (const step of steps) {
+    // Cancellation is cooperative: it is checked between steps, never mid-step
+    const current = await GenerationJob.findById(job._id).select('status lease cancelRequestedAt');
+    if (signal?.aborted || current?.status !== 'running' || current.lease?.owner !== job.lease?.owner) {
+      throw Object.assign(new LeaseLostError(job._id.toString()), { step });
+    }
+    if (current.cancelRequestedAt) {
+      throw new GenerationCancelledError(step);
+    }
+
+    try {
+      await STEP_HANDLERS[step]({ job, project, chat });
+    } catch (error) {
+      throw Object.assign(error instanceof Error ? error : new Error(String(error)), { step });
+    }
+  }
+
+  // A job resumed after its quality step was recorded but before the project was completed
+  if (project.status !== 'complete') {
+    await project.markComplete();
+  }
+
+  logger.info('App generation completed successfully', {
+    projectId: project._id.toString(),
+    qualityScore: project.qualityScore,
+    filesGenerated: project.files.length
+  });
+};
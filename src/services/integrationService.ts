@@ -0,0 +1,397 @@
+import path from 'path';
+import ts from 'typescript';
+import {
+  FileChange,
+  GeneratedFile,
+  GeneratedProject,
+  IIntegration,
+  IntegrationApplyResult,
+  IntegrationConflict,
+} from '../types';
+import Integration from '../models/Integration';
+import { applyFileChanges, normalizeProjectPath } from '../utils/projectFiles';
+import logger from '../utils/logger';
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Which techStack field picks the provider for an integration category
+const STACK_FIELD_BY_CATEGORY: Record<string, keyof GeneratedProject['techStack']> = {
+  auth: 'auth',
+  database: 'database',
+  payments: 'payments',
+};
+
+// Categories where the techStack choice is explicit, so another provider is never substituted
+const STRICT_STACK_CATEGORIES = ['payments'];
+
+export interface ApplyIntegrationOptions {
+  // Integrations already applied to the project, used to attribute conflicts
+  applied?: IIntegration[];
+  // Let the integration win every conflict instead of skipping the operation
+  force?: boolean;
+}
+
+type MergeOutcome = { content: string; conflicts: string[] };
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Deep-merge `source` into `target`. Objects merge key by key, arrays are unioned and
+// differing scalars are reported as conflicts at their dotted key path.
+const mergeJsonValues = (target: any, source: any, keyPath: string, conflicts: string[], force: boolean): any => {
+  if (target === undefined || sameValue(target, source)) return source;
+
+  if (isPlainObject(target) && isPlainObject(source)) {
+    const merged: Record<string, any> = { ...target };
+    for (const [key, value] of Object.entries(source)) {
+      merged[key] = mergeJsonValues(target[key], value, keyPath ? `${keyPath}.${key}` : key, conflicts, force);
+    }
+    return merged;
+  }
+
+  if (Array.isArray(target) && Array.isArray(source)) {
+    return [...target, ...source.filter(item => !target.some(existing => sameValue(existing, item)))];
+  }
+
+  conflicts.push(`${keyPath || '(root)'} is ${JSON.stringify(target)}, integration sets ${JSON.stringify(source)}`);
+  return force ? source : target;
+};
+
+const mergeJson = (existing: string, addition: string, force: boolean): MergeOutcome => {
+  let target: any;
+  let source: any;
+  try {
+    target = JSON.parse(existing);
+  } catch {
+    return { content: existing, conflicts: ['existing file is not valid JSON'] };
+  }
+  try {
+    source = JSON.parse(addition);
+  } catch {
+    return { content: existing, conflicts: ['integration content is not valid JSON'] };
+  }
+
+  const conflicts: string[] = [];
+  const merged = mergeJsonValues(target, source, '', conflicts, force);
+  return { content: JSON.stringify(merged, null, 2) + '\n', conflicts };
+};
+
+// Local names bound by an import declaration
+const importBindings = (declaration: ts.ImportDeclaration): string[] => {
+  const clause = declaration.importClause;
+  if (!clause) return [];
+
+  const names = clause.name ? [clause.name.text] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push(bindings.name.text);
+  } else if (bindings && ts.isNamedImports(bindings)) {
+    names.push(...bindings.elements.map(element => element.name.text));
+  }
+  return names;
+};
+
+const moduleName = (declaration: ts.ImportDeclaration): string =>
+  (declaration.moduleSpecifier as ts.StringLiteral).text;
+
+const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Insert the integration's imports after the file's existing imports (skipping ones
+// already present) and append the rest of its code if the file doesn't contain it yet.
+// Reusing a local name for a different module is a conflict.
+const mergeScript = (filePath: string, existing: string, addition: string, force: boolean): MergeOutcome => {
+  const current = ts.createSourceFile(filePath, existing, ts.ScriptTarget.Latest, true);
+  const incoming = ts.createSourceFile(filePath, addition, ts.ScriptTarget.Latest, true);
+
+  const currentImports = current.statements.filter(ts.isImportDeclaration);
+  const boundTo = new Map<string, string>();
+  for (const declaration of currentImports) {
+    for (const name of importBindings(declaration)) {
+      boundTo.set(name, moduleName(declaration));
+    }
+  }
+  const existingImportText = new Set(currentImports.map(declaration => normalizeWhitespace(declaration.getText(current))));
+
+  const conflicts: string[] = [];
+  const imports: string[] = [];
+  const body: string[] = [];
+
+  for (const statement of incoming.statements) {
+    const text = statement.getText(incoming);
+
+    if (!ts.isImportDeclaration(statement)) {
+      body.push(text);
+      continue;
+    }
+    if (existingImportText.has(normalizeWhitespace(text))) continue;
+
+    const clashes = importBindings(statement).filter(name => {
+      const bound = boundTo.get(name);
+      return bound !== undefined && bound !== moduleName(statement);
+    });
+    if (clashes.length > 0) {
+      conflicts.push(`${clashes.join(', ')} already imported from ${clashes.map(name => `'${boundTo.get(name)}'`).join(', ')}`);
+      if (!force) continue;
+    }
+    imports.push(text);
+  }
+
+  let content = existing;
+
+  if (imports.length > 0) {
+    // After the last import, or after leading directives such as 'use client'
+    let anchor: ts.Statement | undefined = currentImports[currentImports.length - 1];
+    if (!anchor) {
+      for (const statement of current.statements) {
+        if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) break;
+        anchor = statement;
+      }
+    }
+    const position = anchor ? anchor.getEnd() : 0;
+    const block = imports.join('\n');
+
+    content = position === 0
+      ? `${block}\n${content.startsWith('\n') ? '' : '\n'}${content}`
+      : `${content.slice(0, position)}\n${block}${content.slice(position)}`;
+  }
+
+  const rest = body.join('\n\n');
+  if (rest && !normalizeWhitespace(content).includes(normalizeWhitespace(rest))) {
+    content = `${content.replace(/\s*$/, '')}\n\n${rest}\n`;
+  }
+
+  return { content, conflicts };
+};
+
+const appendContent = (existing: string, addition: string): string => {
+  if (existing.includes(addition.trim())) return existing;
+  return `${existing}${existing === '' || existing.endsWith('\n') ? '' : '\n'}${addition}`;
+};
+
+// Apply an integration's files and dependencies to a project's file set without
+// mutating it. Conflicting operations are reported and skipped unless `force` is set.
+export const applyIntegration = (
+  files: GeneratedFile[],
+  integration: IIntegration,
+  options: ApplyIntegrationOptions = {}
+): IntegrationApplyResult => {
+  const { applied = [], force = false } = options;
+  const contents = new Map(files.filter(f => f.type === 'file').map(f => [f.path, f.content]));
+  const changes: FileChange[] = [];
+  const conflicts: IntegrationConflict[] = [];
+
+  const fileOwner = (filePath: string): string | undefined =>
+    applied.find(other => other.files.some(f => normalizeProjectPath(f.path) === filePath))?.slug;
+
+  const write = (filePath: string, content: string) => {
+    if (contents.get(filePath) === content) return;
+    changes.push({ path: filePath, operation: contents.has(filePath) ? 'update' : 'create', content });
+    contents.set(filePath, content);
+  };
+
+  for (const integrationFile of integration.files) {
+    const filePath = normalizeProjectPath(integrationFile.path);
+    if (!filePath) {
+      conflicts.push({ path: integrationFile.path, operation: integrationFile.operation, reason: 'Invalid file path' });
+      continue;
+    }
+
+    const existing = contents.get(filePath);
+    const report = (reason: string) =>
+      conflicts.push({ path: filePath, operation: integrationFile.operation, reason, conflictsWith: fileOwner(filePath) });
+
+    if (existing === undefined) {
+      write(filePath, integrationFile.content);
+      continue;
+    }
+
+    switch (integrationFile.operation) {
+      case 'create':
+        if (existing !== integrationFile.content) {
+          report('File already exists with different contents');
+          if (force) write(filePath, integrationFile.content);
+        }
+        break;
+
+      case 'append':
+        write(filePath, appendContent(existing, integrationFile.content));
+        break;
+
+      case 'update': {
+        const extension = path.posix.extname(filePath);
+        const outcome = extension === '.json'
+          ? mergeJson(existing, integrationFile.content, force)
+          : SCRIPT_EXTENSIONS.includes(extension)
+            ? mergeScript(filePath, existing, integrationFile.content, force)
+            : { content: appendContent(existing, integrationFile.content), conflicts: [] };
+
+        outcome.conflicts.forEach(report);
+        if (outcome.conflicts.length === 0 || force) {
+          write(filePath, outcome.content);
+        }
+        break;
+      }
+    }
+  }
+
+  // Dependencies go into the section the integration asks for
+  const dependencies: IIntegration['dependencies'] = [];
+  if (integration.dependencies.length > 0) {
+    const manifest = contents.get('package.json');
+    let packageJson: Record<string, any> | null = null;
+    try {
+      packageJson = manifest ? JSON.parse(manifest) : null;
+    } catch {
+      packageJson = null;
+    }
+
+    if (!packageJson) {
+      conflicts.push({ path: 'package.json', operation: 'dependency', reason: 'Project has no valid package.json' });
+    } else {
+      for (const dependency of integration.dependencies) {
+        const section = dependency.type === 'devDependencies' ? 'devDependencies' : 'dependencies';
+        const otherSection = section === 'dependencies' ? 'devDependencies' : 'dependencies';
+        const current = packageJson[section]?.[dependency.name] ?? packageJson[otherSection]?.[dependency.name];
+
+        if (current === dependency.version && packageJson[section]?.[dependency.name] === current) continue;
+
+        if (current !== undefined) {
+          conflicts.push({
+            path: 'package.json',
+            operation: 'dependency',
+            reason: current === dependency.version
+              ? `${dependency.name} is listed in ${otherSection}, integration expects ${section}`
+              : `${dependency.name} is ${current}, integration requires ${dependency.version}`,
+            conflictsWith: applied.find(other => other.dependencies.some(d => d.name === dependency.name))?.slug,
+          });
+          if (!force) continue;
+          delete packageJson[otherSection]?.[dependency.name];
+        }
+
+        packageJson[section] = Object.fromEntries(
+          Object.entries({ ...packageJson[section], [dependency.name]: dependency.version })
+            .sort(([a], [b]) => a.localeCompare(b))
+        );
+        dependencies.push(dependency);
+      }
+
+      if (dependencies.length > 0) {
+        write('package.json', JSON.stringify(packageJson, null, 2) + '\n');
+      }
+    }
+  }
+
+  // Collapse repeated writes to the same path into a single change
+  const finalChanges = Array.from(new Map(changes.map(change => [change.path, change])).values())
+    .map(change => ({ ...change, content: contents.get(change.path) }));
+  const created = new Set(changes.filter(change => change.operation === 'create').map(change => change.path));
+
+  return {
+    files: applyFileChanges(files, finalChanges).files,
+    changes: finalChanges.map(change => created.has(change.path) ? { ...change, operation: 'create' as const } : change),
+    dependencies,
+    conflicts,
+  };
+};
+
+const ENV_SECTION_RULE = '# ' + '-'.repeat(70);
+
+// Render a .env.example with one section per integration. Variables shared by several
+// integrations are declared once, under the first integration that needs them.
+export const renderEnvExample = (projectName: string, integrations: IIntegration[]): string => {
+  const lines = [
+    `# Environment variables for ${projectName}`,
+    '# Copy this file to .env.local and fill in the values before starting the app.',
+  ];
+  const declaredBy = new Map<string, string>();
+
+  for (const integration of integrations) {
+    if (integration.envVars.length === 0) continue;
+
+    lines.push('', ENV_SECTION_RULE, `# ${integration.name} (${integration.category})`, ENV_SECTION_RULE);
+
+    for (const envVar of integration.envVars) {
+      lines.push('');
+      const owner = declaredBy.get(envVar.name);
+      if (owner) {
+        lines.push(`# ${envVar.name} is also used here; it is declared in the ${owner} section above.`);
+        continue;
+      }
+      declaredBy.set(envVar.name, integration.name);
+
+      if (envVar.description) {
+        lines.push(`# ${envVar.description.trim().replace(/\s*\n\s*/g, ' ')}`);
+      }
+      const flags = [
+        envVar.required ? 'Required.' : 'Optional.',
+        envVar.sensitive ? 'Sensitive: keep this value secret and out of version control.' : '',
+      ].filter(Boolean);
+      lines.push(`# ${flags.join(' ')}`);
+      lines.push(`${envVar.name}=${envVar.defaultValue ?? ''}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// Render a README section per integration: its environment variables followed by
+// the catalog's setup instructions
+export const renderIntegrationSetup = (integrations: IIntegration[]): string => {
+  const sections = integrations.map(integration => {
+    const lines = [`### ${integration.name}`, ''];
+
+    if (integration.envVars.length > 0) {
+      lines.push(
+        'Environment variables (see `.env.example`):',
+        '',
+        ...integration.envVars.map(envVar => {
+          const flags = [envVar.required ? 'required' : 'optional', envVar.sensitive ? 'sensitive' : ''].filter(Boolean);
+          const description = envVar.description ? ` — ${envVar.description.trim()}` : '';
+          return `- \`${envVar.name}\` (${flags.join(', ')})${description}`;
+        }),
+        ''
+      );
+    }
+
+    lines.push(integration.setupInstructions.trim());
+
+    if (integration.documentation?.official) {
+      lines.push('', `Documentation: ${integration.documentation.official}`);
+    }
+
+    return lines.join('\n');
+  });
+
+  return sections.length > 0 ? ['## Integrations', '', sections.join('\n\n')].join('\n') + '\n' : '';
+};
+
+// Pick one registry integration per required category, preferring the techStack choice
+export const resolveIntegrations = async (
+  categories: string[],
+  techStack: GeneratedProject['techStack']
+): Promise<IIntegration[]> => {
+  if (categories.length === 0) return [];
+
+  const candidates = await Integration.findByRequirements(categories);
+  const compatible = candidates.filter(integration =>
+    integration.compatibility.frameworks.length === 0 ||
+    integration.compatibility.frameworks.includes(techStack.framework as any)
+  );
+
+  return categories.flatMap(category => {
+    const inCategory = compatible.filter(integration => integration.category === category);
+    const stackField = STACK_FIELD_BY_CATEGORY[category];
+    const preferred = stackField ? techStack[stackField] : undefined;
+    const preferredMatch = inCategory.find(integration =>
+      preferred && (integration.provider.toLowerCase() === preferred || integration.slug === preferred)
+    );
+    if (!preferredMatch && preferred && STRICT_STACK_CATEGORIES.includes(category)) {
+      logger.warn('No compatible integration for the chosen provider', { category, provider: preferred });
+      return [];
+    }
+    const match = preferredMatch || inCategory[0];
+    return match ? [match] : [];
+  });
+};
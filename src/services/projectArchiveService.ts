@@ -0,0 +1,83 @@
+import archiver from 'archiver';
+import { IProject } from '../types';
+import Integration from '../models/Integration';
+import { loadFiles } from './fileStoreService';
+import { renderEnvExample, renderIntegrationSetup } from './integrationService';
+
+// Write a project's files as a ZIP archive, adding a README and .env.example
+// when the project does not contain its own
+export const writeProjectArchive = async (project: IProject, output: NodeJS.WritableStream): Promise<void> => {
+  // Create ZIP archive
+  const archive = archiver('zip', {
+    zlib: { level: 9 } // Maximum compression
+  });
+
+  // Pipe archive data to the output
+  archive.pipe(output);
+
+  // Add files to archive
+  const files = await loadFiles(project.files);
+  const projectPaths = new Set(files.map(file => file.path));
+  files.forEach(file => {
+    if (file.type === 'file') {
+      archive.append(file.content, { name: file.path });
+    }
+  });
+
+  // Integrations are documented in the order they were added to the project
+  const integrations = (await Integration.find({ slug: { $in: project.integrations } }))
+    .sort((a, b) => project.integrations.indexOf(a.slug) - project.integrations.indexOf(b.slug));
+
+  // Files the project already contains take precedence over generated ones
+  const needsEnv = integrations.some(integration => integration.envVars.length > 0);
+  if (needsEnv && !projectPaths.has('.env.example')) {
+    archive.append(renderEnvExample(project.name, integrations), { name: '.env.example' });
+  }
+
+  const integrationSetup = renderIntegrationSetup(integrations);
+  const envStep = needsEnv
+    ? `2. Copy \`.env.example\` to \`.env.local\` and fill in the values (see Integrations below)
+
+3. Start development server:`
+    : `2. Start development server:`;
+
+  // Add README with setup instructions
+  const readme = `# ${project.name}
+
+Generated with AI App Builder
+
+## Setup Instructions
+
+1. Install dependencies:
+\`\`\`bash
+npm install
+\`\`\`
+
+${envStep}
+\`\`\`bash
+npm run dev
+\`\`\`
+
+${needsEnv ? 4 : 3}. Open your browser to http://localhost:3000
+${integrationSetup ? `\n${integrationSetup}` : ''}
+## Project Details
+
+- **Quality Score**: ${project.qualityScore}/100
+- **Total Files**: ${project.stats.totalFiles}
+- **Lines of Code**: ${project.stats.linesOfCode}
+- **Generated**: ${new Date(project.createdAt).toLocaleDateString()}
+
+## Tech Stack
+
+${Object.entries(project.techStack).map(([key, value]) => `- **${key}**: ${value}`).join('\n')}
+
+Enjoy your new application! 🎉
+`;
+
+  if (!projectPaths.has('README.md')) {
+    archive.append(readme, { name: 'README.md' });
+  }
+
+  // Finalize archive
+  await archive.finalize();
+};
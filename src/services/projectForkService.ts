@@ -0,0 +1,88 @@
+import { Types } from 'mongoose';
+import { IChat, IProject } from '../types';
+import Project from '../models/Project';
+import ProjectRevision from '../models/ProjectRevision';
+import Chat from '../models/Chat';
+import logger from '../utils/logger';
+
+export interface ForkProjectOptions {
+  // Defaults to "<source name> (fork)"
+  name?: string;
+}
+
+// Copy a completed project into a new project owned by `userId`, with a chat to refine it.
+// File contents are shared through the blob store, so only the file entries are copied.
+// The original prompt and integration configs stay with the original owner.
+export const forkProject = async (
+  source: IProject,
+  userId: Types.ObjectId,
+  options: ForkProjectOptions = {}
+): Promise<{ project: IProject; chat: IChat }> => {
+  // The source may have been loaded with its owner populated
+  const data = source.toObject({ depopulate: true });
+  const ownerId: Types.ObjectId = data.userId;
+  const ownFork = ownerId.equals(userId);
+  const name = (options.name || `${source.name} (fork)`).slice(0, 100);
+
+  const project = await Project.create({
+    name,
+    description: data.description,
+    userId,
+    status: 'complete',
+    progress: 100,
+    currentStep: 'Complete',
+    userInput: ownFork ? data.userInput : `Forked from ${source.name}`.slice(0, 2000),
+    requirements: data.requirements,
+    components: data.components.map(({ componentId, variantId, version, customizations }: IProject['components'][number]) => ({
+      componentId,
+      variantId,
+      version,
+      customizations,
+    })),
+    files: data.files.map(({ path, type, size, hash, content }: IProject['files'][number]) => ({ path, type, size, hash, content })),
+    packageJson: data.packageJson,
+    integrations: data.integrations,
+    integrationConfigs: ownFork ? data.integrationConfigs : {},
+    techStack: data.techStack,
+    stats: data.stats,
+    qualityScore: data.qualityScore,
+    qualityReport: data.qualityReport,
+    isPublic: false,
+    forkedFrom: {
+      projectId: source._id,
+      userId: ownerId,
+      name: source.name,
+      revision: source.revision,
+    },
+  });
+
+  await ProjectRevision.snapshot(project, {
+    source: 'fork',
+    summary: `Forked from ${source.name} (revision ${source.revision})`,
+  });
+  await Project.updateOne({ _id: source._id }, { $inc: { forkCount: 1 } });
+
+  const chat = await Chat.create({
+    userId,
+    projectId: project._id,
+    title: name,
+    messages: [{
+      id: new Date().getTime().toString(),
+      role: 'assistant',
+      content: `Forked "${source.name}". Describe a change to start refining your copy.`,
+      timestamp: new Date(),
+      metadata: {},
+      attachments: [],
+    }],
+    status: 'completed',
+  });
+
+  logger.info('Project forked', {
+    projectId: project._id.toString(),
+    sourceProjectId: source._id.toString(),
+    userId: userId.toString(),
+    revision: source.revision,
+  });
+
+  return { project, chat };
+};
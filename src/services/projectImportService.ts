@@ -0,0 +1,222 @@
+import yauzl, { Entry, ZipFile } from 'yauzl';
+import { FrameworkTarget, GeneratedFile, StylingSystem } from '../types';
+import { normalizeProjectPath } from '../utils/projectFiles';
+
+export const IMPORT_LIMITS = {
+  // Uploaded archive size, in bytes
+  maxArchiveSize: 20 * 1024 * 1024,
+  maxEntries: 5000,
+  // Uncompressed size of a single file, in bytes
+  maxFileSize: 1024 * 1024,
+  // Uncompressed size of all files together, in bytes
+  maxTotalSize: 50 * 1024 * 1024,
+  // Entries larger than this must not compress better than maxCompressionRatio
+  ratioCheckThreshold: 64 * 1024,
+  maxCompressionRatio: 100,
+};
+
+export type ImportLimits = typeof IMPORT_LIMITS;
+
+// Directories and files that are never part of a project's sources
+const IGNORED_SEGMENTS = ['node_modules', '.git', '.next', '.svelte-kit', 'dist', 'build', '.turbo', '__MACOSX'];
+const IGNORED_FILES = ['.DS_Store', 'Thumbs.db'];
+
+// Unix file type bits stored in the high 16 bits of externalFileAttributes
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+export class ZipImportError extends Error {
+  public path?: string;
+
+  constructor(message: string, path?: string) {
+    super(message);
+    this.name = 'ZipImportError';
+    this.path = path;
+  }
+}
+
+export interface InferredTechStack {
+  // Undefined when no supported framework is found
+  framework?: FrameworkTarget;
+  language: 'typescript' | 'javascript';
+  styling: StylingSystem;
+  database: string;
+  auth: string;
+  payments: string;
+}
+
+export interface ExtractedArchive {
+  files: GeneratedFile[];
+  // Entries left out of the project and why
+  skipped: { path: string; reason: string }[];
+}
+
+const isSymlink = (entry: Entry): boolean => ((entry.externalFileAttributes >>> 16) & S_IFMT) === S_IFLNK;
+
+// Read an entry's contents, stopping as soon as it grows past the limit in case the
+// declared size was forged
+const readEntry = async (zip: ZipFile, entry: Entry, limit: number): Promise<Buffer> => {
+  const stream = await zip.openReadStreamPromise(entry);
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > limit) {
+      stream.destroy();
+      throw new ZipImportError(`${entry.fileName} is larger than ${limit} bytes`, entry.fileName);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+// Archives downloaded from a Git host wrap everything in a single "<repo>-<branch>/" directory
+const stripCommonRoot = (files: GeneratedFile[]): GeneratedFile[] => {
+  const roots = new Set(files.map(file => file.path.split('/')[0]));
+  const [root] = roots;
+  if (roots.size !== 1 || files.some(file => !file.path.includes('/'))) return files;
+
+  return files.map(file => ({ ...file, path: file.path.slice(root!.length + 1) }));
+};
+
+// Extract the text files of a ZIP archive into project files. Rejects the whole archive
+// on unsafe paths, symlinks, encrypted or oversized entries and likely decompression bombs;
+// dependency folders, build output and binary files are skipped.
+export const extractZip = async (buffer: Buffer, limits: ImportLimits = IMPORT_LIMITS): Promise<ExtractedArchive> => {
+  let zip: ZipFile;
+  try {
+    // yauzl rejects absolute paths and ".." segments and checks that entries
+    // decompress to their declared size
+    zip = await yauzl.fromBufferPromise(buffer, { lazyEntries: true, validateEntrySizes: true });
+  } catch (error) {
+    throw new ZipImportError(`Not a valid ZIP archive: ${(error as Error).message}`);
+  }
+
+  if (zip.entryCount > limits.maxEntries) {
+    zip.close();
+    throw new ZipImportError(`Archive has ${zip.entryCount} entries; at most ${limits.maxEntries} are allowed`);
+  }
+
+  const files = new Map<string, GeneratedFile>();
+  const skipped: ExtractedArchive['skipped'] = [];
+  let totalSize = 0;
+
+  try {
+    for await (const entry of zip.eachEntry()) {
+      if (entry.fileName.endsWith('/')) continue;
+
+      const filePath = normalizeProjectPath(entry.fileName);
+      if (!filePath) {
+        throw new ZipImportError(`Unsafe path in archive: ${entry.fileName}`, entry.fileName);
+      }
+      if (isSymlink(entry)) {
+        throw new ZipImportError(`Symbolic links are not allowed: ${filePath}`, filePath);
+      }
+      if (entry.isEncrypted()) {
+        throw new ZipImportError(`Encrypted entries are not supported: ${filePath}`, filePath);
+      }
+
+      const segments = filePath.split('/');
+      if (segments.some(segment => IGNORED_SEGMENTS.includes(segment)) || IGNORED_FILES.includes(segments[segments.length - 1]!)) {
+        skipped.push({ path: filePath, reason: 'ignored' });
+        continue;
+      }
+
+      if (entry.uncompressedSize > limits.maxFileSize) {
+        throw new ZipImportError(`${filePath} is larger than ${limits.maxFileSize} bytes`, filePath);
+      }
+      if (
+        entry.uncompressedSize > limits.ratioCheckThreshold &&
+        entry.uncompressedSize > entry.compressedSize * limits.maxCompressionRatio
+      ) {
+        throw new ZipImportError(`${filePath} has a suspicious compression ratio`, filePath);
+      }
+      totalSize += entry.uncompressedSize;
+      if (totalSize > limits.maxTotalSize) {
+        throw new ZipImportError(`Archive expands to more than ${limits.maxTotalSize} bytes`);
+      }
+      if (files.has(filePath)) {
+        throw new ZipImportError(`Duplicate entry in archive: ${filePath}`, filePath);
+      }
+
+      const content = await readEntry(zip, entry, limits.maxFileSize);
+      // Project files are stored as text
+      if (content.includes(0)) {
+        skipped.push({ path: filePath, reason: 'binary' });
+        continue;
+      }
+
+      files.set(filePath, { path: filePath, content: content.toString('utf8'), type: 'file' });
+    }
+  } catch (error) {
+    zip.close();
+    if (error instanceof ZipImportError) throw error;
+    throw new ZipImportError(`Could not read archive: ${(error as Error).message}`);
+  }
+
+  return { files: stripCommonRoot(Array.from(files.values())), skipped };
+};
+
+const FRAMEWORK_PACKAGES: [string, FrameworkTarget][] = [
+  ['next', 'nextjs'],
+  ['@sveltejs/kit', 'svelte'],
+  ['svelte', 'svelte'],
+  ['vue', 'vue'],
+  ['react', 'react'],
+];
+
+const AUTH_PACKAGES: [string, string][] = [
+  ['next-auth', 'nextauth'],
+  ['@auth/core', 'nextauth'],
+  ['@clerk/', 'clerk'],
+  ['@auth0/', 'auth0'],
+];
+
+const DATABASE_PACKAGES: [string, string][] = [
+  ['@prisma/client', 'prisma'],
+  ['prisma', 'prisma'],
+  ['@supabase/supabase-js', 'supabase'],
+  ['mongoose', 'mongodb'],
+  ['mongodb', 'mongodb'],
+];
+
+const PAYMENTS_PACKAGES: [string, string][] = [
+  ['stripe', 'stripe'],
+  ['@stripe/', 'stripe'],
+  ['@paypal/', 'paypal'],
+];
+
+// First match in priority order; names ending in "/" match a whole npm scope
+const detect = <T extends string>(packages: Set<string>, candidates: [string, T][]): T | undefined =>
+  candidates.find(([name]) => name.endsWith('/')
+    ? Array.from(packages).some(pkg => pkg.startsWith(name))
+    : packages.has(name))?.[1];
+
+// Infer a project's tech stack from its package.json dependencies and file layout
+export const inferTechStack = (packageJson: Record<string, any> | null, files: GeneratedFile[]): InferredTechStack => {
+  const packages = new Set([
+    ...Object.keys(packageJson?.dependencies || {}),
+    ...Object.keys(packageJson?.devDependencies || {}),
+  ]);
+  const paths = files.map(file => file.path);
+
+  const typescript = packages.has('typescript') || paths.some(filePath => /(^|\/)tsconfig\.json$|\.tsx?$/.test(filePath));
+
+  let styling: StylingSystem = 'css-modules';
+  if (packages.has('tailwindcss')) {
+    styling = 'tailwindcss';
+  } else if (packages.has('styled-components')) {
+    styling = 'styled-components';
+  }
+
+  return {
+    framework: detect(packages, FRAMEWORK_PACKAGES),
+    language: typescript ? 'typescript' : 'javascript',
+    styling,
+    database: detect(packages, DATABASE_PACKAGES) || 'none',
+    auth: detect(packages, AUTH_PACKAGES) || 'none',
+    payments: detect(packages, PAYMENTS_PACKAGES) || 'none',
+  };
+};
@@ -0,0 +1,231 @@
+import { Types } from 'mongoose';
+import { IProject, ProjectSearchResult, SearchHighlight } from '../types';
+import Project from '../models/Project';
+import FileBlob from '../models/FileBlob';
+
+// Limits that keep a result readable
+const MAX_TERMS = 8;
+const MAX_FILES_PER_PROJECT = 5;
+const MAX_LINES_PER_FILE = 3;
+const SNIPPET_LENGTH = 160;
+
+// Bounds on the file contents scanned per search; larger files (bundles, lockfiles,
+// generated data) are only matched by path
+const MAX_SCANNED_BLOBS = 2000;
+const MAX_SCANNED_BLOB_SIZE = 256 * 1024;
+
+// Weight of a text-index match relative to one matching file
+const TEXT_SCORE_WEIGHT = 10;
+
+export interface SearchProjectsOptions {
+  page?: number;
+  limit?: number;
+}
+
+interface SearchPattern {
+  terms: string[];
+  // The whole query, also matching when its words are joined by "_", "-" or nothing,
+  // so "invoice table" finds InvoiceTable and invoice_table
+  phrase: RegExp;
+  anyTerm: RegExp;
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toPattern = (query: string): SearchPattern => {
+  const terms = Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean))).slice(0, MAX_TERMS);
+  return {
+    terms,
+    phrase: new RegExp(terms.map(escapeRegExp).join('[\\s_-]*'), 'i'),
+    anyTerm: new RegExp(terms.map(escapeRegExp).join('|'), 'i'),
+  };
+};
+
+// Whether text contains the phrase, or every term somewhere
+const matches = (text: string, pattern: SearchPattern): boolean =>
+  pattern.phrase.test(text) || pattern.terms.every(term => text.toLowerCase().includes(term));
+
+// Ranges of every phrase or term occurrence, merged where they overlap
+const findHighlights = (text: string, pattern: SearchPattern): SearchHighlight[] => {
+  const ranges: SearchHighlight[] = [];
+  for (const regex of [pattern.phrase, pattern.anyTerm]) {
+    for (const match of text.matchAll(new RegExp(regex.source, 'gi'))) {
+      if (match[0].length > 0) ranges.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .reduce<SearchHighlight[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+};
+
+// Cut a long line down to a window around its first highlight, shifting the highlights to match
+const toSnippet = (text: string, pattern: SearchPattern): { snippet: string; highlights: SearchHighlight[] } => {
+  const highlights = findHighlights(text, pattern);
+  if (text.length <= SNIPPET_LENGTH) return { snippet: text, highlights };
+
+  const first = highlights[0]?.start ?? 0;
+  const start = Math.max(0, Math.min(first - Math.floor(SNIPPET_LENGTH / 4), text.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: highlights
+      .filter(range => range.start >= start && range.end <= end)
+      .map(range => ({ start: range.start - start + prefix.length, end: range.end - start + prefix.length })),
+  };
+};
+
+const matchLines = (content: string, pattern: SearchPattern): ProjectSearchResult['files'][number]['lines'] => {
+  const lines = content.split('\n');
+  const phraseLines = lines.flatMap((text, index) => pattern.phrase.test(text) ? [index] : []);
+  // Prefer lines with the whole phrase; fall back to lines with any term
+  const chosen = phraseLines.length > 0
+    ? phraseLines
+    : lines.flatMap((text, index) => pattern.anyTerm.test(text) ? [index] : []);
+
+  return chosen.slice(0, MAX_LINES_PER_FILE).map(index => {
+    const { snippet, highlights } = toSnippet(lines[index]!.trim(), pattern);
+    return { line: index + 1, text: snippet, highlights };
+  });
+};
+
+// Project data a search needs, loaded without Mongoose documents
+type SearchedProject = Pick<IProject, '_id' | 'name' | 'description' | 'status' | 'techStack' | 'userInput' | 'updatedAt'> & {
+  requirements?: Pick<IProject['requirements'], 'features' | 'entities'>;
+  files: Pick<IProject['files'][number], 'path' | 'type' | 'hash' | 'content'>[];
+};
+
+interface RankedProject {
+  project: SearchedProject;
+  fields: { field: string; value: string }[];
+  files: SearchedProject['files'];
+  score: number;
+}
+
+const SEARCHED_FIELDS: { field: string; values: (project: SearchedProject) => string[] }[] = [
+  { field: 'name', values: project => [project.name] },
+  { field: 'description', values: project => project.description ? [project.description] : [] },
+  { field: 'userInput', values: project => [project.userInput] },
+  { field: 'requirements.features', values: project => project.requirements?.features || [] },
+  { field: 'requirements.entities', values: project => project.requirements?.entities || [] },
+];
+
+// Search the caller's projects by their metadata and by the contents and paths of their files.
+// Metadata is ranked with the text index (which handles stemming); substrings and file
+// contents are matched case-insensitively. Projects are ranked from which blobs match,
+// and contents are only loaded to build snippets for the requested page.
+export const searchProjects = async (
+  userId: Types.ObjectId,
+  query: string,
+  options: SearchProjectsOptions = {}
+): Promise<{ results: ProjectSearchResult[]; total: number; truncated: boolean }> => {
+  const { page = 1, limit = 10 } = options;
+  const pattern = toPattern(query);
+  if (pattern.terms.length === 0) return { results: [], total: 0, truncated: false };
+
+  const [projects, textMatches] = await Promise.all([
+    Project.find({ userId })
+      .sort({ updatedAt: -1 })
+      .select('name description status techStack userInput requirements.features requirements.entities files.path files.type files.hash files.content updatedAt')
+      .lean<SearchedProject[]>(),
+    Project.find({ userId, $text: { $search: query } }, { score: { $meta: 'textScore' } })
+      .select('_id')
+      .lean<{ _id: Types.ObjectId; score: number }[]>(),
+  ]);
+  const textScores = new Map(textMatches.map(match => [match._id.toString(), match.score]));
+
+  // Blobs are shared between projects, so each content is scanned once; the most
+  // recently updated projects are scanned first
+  const hashes = Array.from(new Set(projects.flatMap(project => project.files.flatMap(file => file.hash ? [file.hash] : []))));
+  const scanned = hashes.slice(0, MAX_SCANNED_BLOBS);
+  const matchingBlobs = scanned.length > 0
+    ? await FileBlob.find({
+      _id: { $in: scanned },
+      size: { $lte: MAX_SCANNED_BLOB_SIZE },
+      $or: [
+        { content: { $regex: pattern.phrase.source, $options: 'i' } },
+        { $and: pattern.terms.map(term => ({ content: { $regex: escapeRegExp(term), $options: 'i' } })) },
+      ],
+    })
+      .select('_id')
+      .lean<{ _id: string }[]>()
+    : [];
+  const matchingHashes = new Set(matchingBlobs.map(blob => blob._id));
+
+  const ranked = projects.flatMap((project): RankedProject[] => {
+    const fields = SEARCHED_FIELDS.flatMap(({ field, values }) =>
+      values(project)
+        .filter(value => matches(value, pattern))
+        .map(value => ({ field, value })));
+
+    const files = project.files.filter(file => file.type === 'file' && (
+      matches(file.path, pattern) ||
+      (file.hash
+        ? matchingHashes.has(file.hash)
+        // Files saved before the blob store keep their contents inline
+        : file.content !== undefined && matches(file.content, pattern))
+    ));
+
+    const textScore = textScores.get(project._id.toString()) || 0;
+    if (fields.length === 0 && files.length === 0 && textScore === 0) return [];
+
+    return [{
+      project,
+      fields,
+      files,
+      score: Math.round((textScore * TEXT_SCORE_WEIGHT + fields.length * TEXT_SCORE_WEIGHT + files.length) * 100) / 100,
+    }];
+  });
+
+  ranked.sort((a, b) => b.score - a.score || b.project.updatedAt.getTime() - a.project.updatedAt.getTime());
+  const pageItems = ranked.slice((page - 1) * limit, page * limit);
+
+  const shownHashes = Array.from(new Set(pageItems.flatMap(item => item.files
+    .slice(0, MAX_FILES_PER_PROJECT)
+    .flatMap(file => file.hash && matchingHashes.has(file.hash) ? [file.hash] : []))));
+  const blobs = shownHashes.length > 0
+    ? await FileBlob.find({ _id: { $in: shownHashes } }).select('content').lean<{ _id: string; content: string }[]>()
+    : [];
+  const contents = new Map(blobs.map(blob => [blob._id, blob.content]));
+
+  const results = pageItems.map(({ project, fields, files, score }): ProjectSearchResult => ({
+    project: {
+      _id: project._id,
+      name: project.name,
+      description: project.description,
+      status: project.status,
+      techStack: project.techStack,
+      updatedAt: project.updatedAt,
+    },
+    score,
+    fields: fields.map(({ field, value }) => ({ field, ...toSnippet(value, pattern) })),
+    files: files.slice(0, MAX_FILES_PER_PROJECT).map(file => {
+      const content = file.hash ? contents.get(file.hash) : file.content;
+      const pathMatches = matches(file.path, pattern);
+      return {
+        path: file.path,
+        pathHighlights: pathMatches ? findHighlights(file.path, pattern) : [],
+        lines: content !== undefined && matches(content, pattern) ? matchLines(content, pattern) : [],
+      };
+    }),
+    totalFileMatches: files.length,
+  }));
+
+  return {
+    results,
+    total: ranked.length,
+    // Some file contents were not searched
+    truncated: hashes.length > scanned.length,
+  };
+};
@@ -0,0 +1,179 @@
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { AIProvider, RefinementInput, RefinementPlan, RequirementAnalysis } from '../../types';
+import logger from '../../utils/logger';
+
+// Shape the model must return; anything else is rejected before it reaches the pipeline
+const requirementAnalysisSchema = z.object({
+  features: z.array(z.string().min(1)).min(1),
+  entities: z.array(z.string().min(1)),
+  integrations: z.array(z.enum(['auth', 'database', 'payments', 'email', 'storage', 'analytics'])),
+  complexity: z.enum(['simple', 'medium', 'complex']),
+  estimatedComponents: z.number().int().min(1).max(100),
+  reasoning: z.string(),
+});
+
+const REQUIREMENTS_SYSTEM_PROMPT = `You are a senior product engineer analysing a request for a web application.
+Respond with a single JSON object and nothing else, using exactly these keys:
+- "features": short lowercase feature names (e.g. "authentication", "dashboard", "invoice table")
+- "entities": lowercase plural data entities (e.g. "users", "invoices")
+- "integrations": any of "auth", "database", "payments", "email", "storage", "analytics"
+- "complexity": one of "simple", "medium", "complex"
+- "estimatedComponents": integer number of UI components the app needs
+- "reasoning": one or two sentences explaining the analysis`;
+
+const refinementPlanSchema = z.object({
+  explanation: z.string().min(1),
+  changes: z.array(
+    z.object({
+      path: z.string().min(1),
+      operation: z.enum(['create', 'update', 'delete']),
+      content: z.string().optional(),
+    }).refine(change => change.operation === 'delete' || change.content !== undefined, {
+      message: 'content is required for create and update',
+    })
+  ).max(50),
+});
+
+const REFINEMENT_SYSTEM_PROMPT = `You are a senior engineer modifying an existing generated web application at the user's request.
+You are given the project's file list, the contents of the most relevant files and the recent conversation.
+Respond with a single JSON object and nothing else, using exactly these keys:
+- "explanation": a short message to the user describing what you changed (or why nothing changed)
+- "changes": an array of { "path", "operation", "content" } where "operation" is "create", "update" or "delete"
+Paths are relative to the project root. "content" must be the complete new file content for "create" and "update".
+Only include files that actually change, and keep the existing framework, styling and code conventions.`;
+
+// Upper bound on file contents sent to the model with a refinement request
+const REFINEMENT_CONTEXT_CHARS = 24000;
+
+export class OpenAIProvider implements AIProvider {
+  public readonly name = 'openai';
+  private client: OpenAI;
+  private model: string;
+  private maxTokens: number;
+
+  constructor(options: { apiKey: string; model?: string; maxTokens?: number }) {
+    this.client = new OpenAI({ apiKey: options.apiKey });
+    // Requests use JSON mode, which the original gpt-4 does not support
+    this.model = options.model || 'gpt-4o';
+    this.maxTokens = options.maxTokens || 2000;
+  }
+
+  async analyzeRequirements(userInput: string): Promise<RequirementAnalysis> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: this.maxTokens,
+      temperature: 0.2,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: REQUIREMENTS_SYSTEM_PROMPT },
+        { role: 'user', content: userInput },
+      ],
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('OpenAI returned an empty response');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error('OpenAI returned invalid JSON for requirements analysis');
+    }
+
+    const result = requirementAnalysisSchema.safeParse(parsed);
+    if (!result.success) {
+      logger.warn('OpenAI requirements analysis failed schema validation', {
+        issues: result.error.issues,
+      });
+      throw new Error('OpenAI returned a malformed requirements analysis');
+    }
+
+    return {
+      ...result.data,
+      features: dedupe(result.data.features),
+      entities: dedupe(result.data.entities),
+      integrations: dedupe(result.data.integrations),
+    };
+  }
+
+  async planRefinement(input: RefinementInput): Promise<RefinementPlan> {
+    const context = [
+      `Tech stack: ${JSON.stringify(input.techStack)}`,
+      `Files:\n${input.files.map(file => file.path).join('\n')}`,
+      ...selectContextFiles(input).map(file => `--- ${file.path}\n${file.content}`),
+    ].join('\n\n');
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      max_tokens: Math.max(this.maxTokens, 4000),
+      temperature: 0.2,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: REFINEMENT_SYSTEM_PROMPT },
+        { role: 'system', content: context },
+        ...input.history.slice(-6).map(message => ({
+          role: (message.role === 'assistant' ? 'assistant' : 'user') as 'assistant' | 'user',
+          content: message.content,
+        })),
+        { role: 'user', content: input.request },
+      ],
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('OpenAI returned an empty response');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new Error('OpenAI returned invalid JSON for refinement plan');
+    }
+
+    const result = refinementPlanSchema.safeParse(parsed);
+    if (!result.success) {
+      logger.warn('OpenAI refinement plan failed schema validation', {
+        issues: result.error.issues,
+      });
+      throw new Error('OpenAI returned a malformed refinement plan');
+    }
+
+    return result.data;
+  }
+}
+
+// Pick the files most likely to matter for a request: files named in it first, then
+// layouts, pages and styling, until the context budget is spent
+function selectContextFiles(input: RefinementInput): { path: string; content: string }[] {
+  const request = input.request.toLowerCase();
+  const score = (filePath: string): number => {
+    const base = filePath.split('/').pop()!.replace(/\.[^.]+$/, '').toLowerCase();
+    if (request.includes(filePath.toLowerCase()) || (base.length > 3 && request.includes(base))) return 3;
+    if (/(^|\/)(layout|page)\.(tsx|jsx|vue|svelte)$|globals\.css$|tailwind\.config/.test(filePath)) return 2;
+    if (filePath.startsWith('src/components/')) return 1;
+    return 0;
+  };
+
+  const selected: { path: string; content: string }[] = [];
+  let budget = REFINEMENT_CONTEXT_CHARS;
+  const ranked = input.files
+    .map(file => ({ file, score: score(file.path) }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  for (const { file } of ranked) {
+    if (file.content.length > budget) continue;
+    selected.push(file);
+    budget -= file.content.length;
+  }
+
+  return selected;
+}
+
+function dedupe(values: string[]): string[] {
+  return Array.from(new Set(values.map(value => value.trim().toLowerCase())));
+}
@@ -0,0 +1,202 @@
+import { AIProvider, FileChange, RefinementInput, RefinementPlan, RequirementAnalysis } from '../../types';
+
+// Keyword rules used by the offline provider. Order matters: results keep rule order,
+// so the same input always produces the same analysis.
+const FEATURE_RULES: { feature: string; keywords: RegExp; integrations?: string[] }[] = [
+  { feature: 'authentication', keywords: /\b(login|log in|sign ?up|sign ?in|auth\w*|account|password)\b/i, integrations: ['auth'] },
+  { feature: 'dashboard', keywords: /\b(dashboard|admin panel|overview|analytics|metrics|stats)\b/i },
+  { feature: 'user management', keywords: /\b(users?|members?|roles?|team|profiles?)\b/i, integrations: ['auth', 'database'] },
+  { feature: 'payments', keywords: /\b(pay\w*|checkout|stripe|paypal|billing|subscriptions?|pricing)\b/i, integrations: ['payments'] },
+  { feature: 'blog', keywords: /\b(blog|posts?|articles?|cms)\b/i, integrations: ['database'] },
+  { feature: 'e-commerce', keywords: /\b(shop|store|cart|products?|e-?commerce|catalog)\b/i, integrations: ['database', 'payments'] },
+  { feature: 'search', keywords: /\b(search|filter|find)\b/i },
+  { feature: 'file upload', keywords: /\b(upload\w*|files?|images?|attachments?|media)\b/i, integrations: ['storage'] },
+  { feature: 'notifications', keywords: /\b(notif\w*|alerts?|emails?|newsletter)\b/i, integrations: ['email'] },
+  { feature: 'chat', keywords: /\b(chat|messag\w*|inbox|conversations?)\b/i, integrations: ['database'] },
+  { feature: 'calendar', keywords: /\b(calendar|schedul\w*|bookings?|appointments?|events?)\b/i, integrations: ['database'] },
+  { feature: 'data table', keywords: /\b(tables?|lists?|records|crud|invoices?|inventory|reports?)\b/i, integrations: ['database'] },
+  { feature: 'forms', keywords: /\b(forms?|contact|survey|feedback)\b/i },
+  { feature: 'landing page', keywords: /\b(landing|marketing|homepage|portfolio|hero)\b/i },
+  { feature: 'analytics', keywords: /\b(track\w*|analytics|charts?|graphs?)\b/i, integrations: ['analytics'] },
+];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'app', 'application', 'build', 'can', 'create', 'for', 'from', 'have', 'i', 'in',
+  'into', 'is', 'it', 'like', 'make', 'me', 'my', 'need', 'of', 'on', 'or', 'our', 'should', 'that',
+  'the', 'their', 'them', 'they', 'this', 'to', 'want', 'we', 'where', 'which', 'who', 'will', 'with',
+  'website', 'web', 'site', 'page', 'pages', 'simple', 'users', 'user',
+]);
+
+export class StubProvider implements AIProvider {
+  public readonly name = 'stub';
+
+  async analyzeRequirements(userInput: string): Promise<RequirementAnalysis> {
+    const features: string[] = [];
+    const integrations = new Set<string>();
+
+    for (const rule of FEATURE_RULES) {
+      if (rule.keywords.test(userInput)) {
+        features.push(rule.feature);
+        (rule.integrations || []).forEach(integration => integrations.add(integration));
+      }
+    }
+
+    if (features.length === 0) {
+      features.push('landing page');
+    }
+
+    const entities = extractEntities(userInput);
+    if (entities.length > 0) {
+      integrations.add('database');
+    }
+
+    const estimatedComponents = Math.min(40, 3 + features.length * 2 + entities.length);
+    const complexity: RequirementAnalysis['complexity'] =
+      features.length >= 6 || integrations.size >= 4
+        ? 'complex'
+        : features.length >= 3 || integrations.size >= 2
+          ? 'medium'
+          : 'simple';
+
+    return {
+      features,
+      entities,
+      integrations: Array.from(integrations).sort(),
+      complexity,
+      estimatedComponents,
+      reasoning: `Matched ${features.length} feature(s) and ${entities.length} entit${entities.length === 1 ? 'y' : 'ies'} from keywords in the request (offline analysis).`,
+    };
+  }
+
+  async planRefinement(input: RefinementInput): Promise<RefinementPlan> {
+    const files = new Map(input.files.map(file => [file.path, file.content]));
+    const changes: FileChange[] = [];
+    const summary: string[] = [];
+
+    for (const rule of REFINEMENT_RULES) {
+      const match = rule.pattern.exec(input.request);
+      if (!match) continue;
+
+      const result = rule.apply(match, files);
+      if (result) {
+        changes.push(...result.changes);
+        summary.push(result.summary);
+      }
+    }
+
+    return {
+      explanation: summary.length > 0
+        ? summary.join(' ')
+        : 'I could not map that request to a change in offline mode. Try asking to add or remove a page, switch to a dark theme, or rename the app.',
+      changes,
+    };
+  }
+}
+
+const LAYOUT_PATH = 'src/app/layout.tsx';
+
+// Deterministic edits understood by the offline provider
+const REFINEMENT_RULES: {
+  pattern: RegExp;
+  apply: (match: RegExpExecArray, files: Map<string, string>) => { changes: FileChange[]; summary: string } | null;
+}[] = [
+  {
+    pattern: /\badd (?:a |an |new |another )*([a-z][a-z0-9 -]{0,40}?) page\b/i,
+    apply: (match, files) => {
+      // Pages are only added to Next.js app router projects
+      const title = toTitle(match[1]!);
+      const filePath = `src/app/${toSlug(match[1]!)}/page.tsx`;
+      if (!files.has(LAYOUT_PATH) || files.has(filePath)) return null;
+
+      return {
+        changes: [{ path: filePath, operation: 'create', content: renderStubPage(title) }],
+        summary: `Added a ${title} page at /${toSlug(match[1]!)}.`,
+      };
+    },
+  },
+  {
+    pattern: /\b(?:remove|delete) (?:the )?([a-z][a-z0-9 -]{0,40}?) page\b/i,
+    apply: (match, files) => {
+      const filePath = `src/app/${toSlug(match[1]!)}/page.tsx`;
+      if (!files.has(filePath)) return null;
+
+      return {
+        changes: [{ path: filePath, operation: 'delete' }],
+        summary: `Removed the ${toTitle(match[1]!)} page.`,
+      };
+    },
+  },
+  {
+    pattern: /\bdark (?:mode|theme)\b/i,
+    apply: (_match, files) => {
+      const changes: FileChange[] = [];
+      const layout = files.get(LAYOUT_PATH);
+      if (layout && !layout.includes('className="dark"')) {
+        changes.push({ path: LAYOUT_PATH, operation: 'update', content: layout.replace('<html lang="en">', '<html lang="en" className="dark">') });
+      }
+
+      const tailwind = files.get('tailwind.config.ts');
+      if (tailwind && !tailwind.includes('darkMode')) {
+        changes.push({ path: 'tailwind.config.ts', operation: 'update', content: tailwind.replace('const config: Config = {', "const config: Config = {\n  darkMode: 'class',") });
+      }
+
+      const globals = files.get('src/app/globals.css');
+      if (tailwind && globals !== undefined && !globals.includes('.dark body')) {
+        changes.push({ path: 'src/app/globals.css', operation: 'update', content: `${globals}\n.dark body {\n  @apply bg-gray-900 text-gray-100;\n}\n` });
+      }
+
+      return changes.length > 0 ? { changes, summary: 'Switched the app to a dark theme.' } : null;
+    },
+  },
+  {
+    pattern: /\b(?:rename|call) (?:the |my )?(?:app|project|site) (?:to )?["']?([^"'\n]{1,60}?)["']?\s*[.!]?$/i,
+    apply: (match, files) => {
+      const layout = files.get(LAYOUT_PATH);
+      if (!layout) return null;
+
+      const name = match[1]!.trim();
+      const updated = layout.replace(/title: ".*?",/, `title: ${JSON.stringify(name)},`);
+      if (updated === layout) return null;
+
+      return {
+        changes: [{ path: LAYOUT_PATH, operation: 'update', content: updated }],
+        summary: `Renamed the app to "${name}".`,
+      };
+    },
+  },
+];
+
+function toSlug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function toTitle(value: string): string {
+  return value.trim().split(/[\s-]+/).map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()).join(' ');
+}
+
+function renderStubPage(title: string): string {
+  return `export default function ${title.replace(/[^A-Za-z0-9]/g, '')}Page() {
+  return (
+    <main className="min-h-screen">
+      <h1 className="text-4xl font-bold text-gray-900">${title}</h1>
+    </main>
+  );
+}
+`;
+}
+
+// Treat plural nouns that follow "manage"/"track"/"list" style verbs, or "of X", as entities
+function extractEntities(userInput: string): string[] {
+  const entities: string[] = [];
+  const pattern = /\b(?:manage|managing|track|tracking|list|listing|store|storing|of|with|for|add|edit|view)\s+(?:their\s+|my\s+|our\s+|the\s+)?([a-z]+s)\b/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(userInput)) !== null) {
+    const entity = match[1]!.toLowerCase();
+    if (!STOP_WORDS.has(entity) && entity.length > 3 && !entities.includes(entity)) {
+      entities.push(entity);
+    }
+  }
+
+  return entities.slice(0, 8);
+}
@@ -0,0 +1,380 @@
+import { builtinModules } from 'module';
+import path from 'path';
+import ts from 'typescript';
+import { GeneratedFile, IProject, QualityCheck, QualityReport } from '../types';
+import Integration from '../models/Integration';
+import { loadFiles } from './fileStoreService';
+
+export interface QualityCheckOptions {
+  // Environment variables declared outside the generated files (e.g. by integrations)
+  declaredEnvVars?: string[];
+}
+
+interface CheckResult extends QualityCheck {
+  weight: number;
+  recommendations: string[];
+}
+
+// Provided by the runtime/framework, never need to be declared
+const BUILTIN_ENV_VARS = new Set(['NODE_ENV', 'PORT', 'VERCEL_URL', 'CI']);
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+const RESOLVE_EXTENSIONS = [...SCRIPT_EXTENSIONS, '.json', '.css', '.scss', '.svg', '.png'];
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+// Virtual modules provided by SvelteKit at build time
+const SVELTEKIT_MODULES = /^\$(app|env|service-worker)(\/|$)/;
+
+const isScript = (filePath: string): boolean => SCRIPT_EXTENSIONS.includes(path.posix.extname(filePath));
+const isTypeScript = (filePath: string): boolean => /\.tsx?$/.test(filePath);
+
+const scriptKind = (filePath: string): ts.ScriptKind => {
+  switch (path.posix.extname(filePath)) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+};
+
+const parse = (file: GeneratedFile): ts.SourceFile =>
+  ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, scriptKind(file.path));
+
+const lineOf = (sourceFile: ts.SourceFile, position: number): number =>
+  sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+// Score that starts at 100 and loses `penalty` points per issue
+const penalize = (issues: number, penalty: number): number => Math.max(0, 100 - issues * penalty);
+
+// "lodash/fp" -> "lodash", "@scope/pkg/sub" -> "@scope/pkg"
+const packageNameOf = (specifier: string): string => {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]!;
+};
+
+const collectModuleSpecifiers = (sourceFile: ts.SourceFile): { specifier: string; line: number }[] => {
+  const specifiers: { specifier: string; line: number }[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      specifiers.push({ specifier: node.moduleSpecifier.text, line: lineOf(sourceFile, node.getStart()) });
+    } else if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteral(node.arguments[0]!) &&
+        ((ts.isIdentifier(node.expression) && node.expression.text === 'require') ||
+         node.expression.kind === ts.SyntaxKind.ImportKeyword)) {
+      specifiers.push({ specifier: (node.arguments[0] as ts.StringLiteral).text, line: lineOf(sourceFile, node.getStart()) });
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return specifiers;
+};
+
+// 1. Every .ts/.tsx file must parse without syntax errors
+const checkTypeScriptSyntax = (files: GeneratedFile[]): CheckResult => {
+  const tsFiles = files.filter(file => isTypeScript(file.path));
+  const errors: { file: string; line: number; message: string }[] = [];
+
+  for (const file of tsFiles) {
+    const result = ts.transpileModule(file.content, {
+      // Declaration files produce no output, which transpileModule treats as a failure
+      fileName: file.path.replace(/\.d\.ts$/, '.ts'),
+      reportDiagnostics: true,
+      compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ES2020 },
+    });
+
+    for (const diagnostic of result.diagnostics || []) {
+      errors.push({
+        file: file.path,
+        line: diagnostic.file && diagnostic.start !== undefined
+          ? lineOf(diagnostic.file, diagnostic.start)
+          : 0,
+        message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+      });
+    }
+  }
+
+  const failedFiles = new Set(errors.map(error => error.file));
+  return {
+    name: 'TypeScript syntax',
+    weight: 3,
+    score: tsFiles.length === 0 ? 100 : Math.round(100 * (1 - failedFiles.size / tsFiles.length)),
+    passed: errors.length === 0,
+    details: { filesChecked: tsFiles.length, errors },
+    recommendations: errors.length > 0
+      ? [`Fix syntax errors in ${Array.from(failedFiles).join(', ')}`]
+      : [],
+  };
+};
+
+// 2. package.json must exist, parse, and declare name and scripts
+const checkPackageJson = (files: GeneratedFile[]): { result: CheckResult; packageJson: any } => {
+  const file = files.find(f => f.path === 'package.json');
+  const issues: string[] = [];
+  let packageJson: any = null;
+
+  if (!file) {
+    issues.push('package.json is missing');
+  } else {
+    try {
+      packageJson = JSON.parse(file.content);
+    } catch (error) {
+      issues.push(`package.json is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  if (packageJson) {
+    if (typeof packageJson.name !== 'string' || !/^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/.test(packageJson.name)) {
+      issues.push('"name" is missing or not a valid npm package name');
+    }
+    if (!packageJson.scripts || typeof packageJson.scripts !== 'object') {
+      issues.push('"scripts" is missing');
+    } else {
+      for (const script of ['dev', 'build']) {
+        if (!packageJson.scripts[script]) issues.push(`"scripts.${script}" is missing`);
+      }
+    }
+    for (const section of ['dependencies', 'devDependencies']) {
+      const deps = packageJson[section];
+      if (deps === undefined) continue;
+      if (typeof deps !== 'object' || Array.isArray(deps)) {
+        issues.push(`"${section}" must be an object`);
+        continue;
+      }
+      for (const [name, version] of Object.entries(deps)) {
+        if (typeof version !== 'string' || version.trim() === '') {
+          issues.push(`"${section}.${name}" has no version`);
+        }
+      }
+    }
+  }
+
+  return {
+    packageJson,
+    result: {
+      name: 'package.json validity',
+      weight: 2,
+      score: !packageJson ? 0 : penalize(issues.length, 20),
+      passed: issues.length === 0,
+      details: { issues },
+      recommendations: issues.map(issue => `package.json: ${issue}`),
+    },
+  };
+};
+
+// 3. Imports must resolve to a generated file or a declared dependency
+const checkImports = (files: GeneratedFile[], packageJson: any): CheckResult => {
+  const paths = new Set(files.filter(file => file.type === 'file').map(file => file.path));
+  const declared = new Set([
+    ...Object.keys(packageJson?.dependencies || {}),
+    ...Object.keys(packageJson?.devDependencies || {}),
+    ...Object.keys(packageJson?.peerDependencies || {}),
+  ]);
+  const unresolved: { file: string; line: number; specifier: string }[] = [];
+  const missingPackages = new Set<string>();
+  let total = 0;
+
+  const resolveLocal = (target: string): boolean => {
+    if (paths.has(target)) return true;
+    return RESOLVE_EXTENSIONS.some(ext => paths.has(`${target}${ext}`) || paths.has(`${target}/index${ext}`));
+  };
+
+  for (const file of files.filter(f => f.type === 'file' && isScript(f.path))) {
+    for (const { specifier, line } of collectModuleSpecifiers(parse(file))) {
+      total++;
+      let resolved: boolean;
+
+      if (specifier.startsWith('.')) {
+        resolved = resolveLocal(path.posix.normalize(path.posix.join(path.posix.dirname(file.path), specifier)));
+      } else if (specifier.startsWith('@/')) {
+        resolved = resolveLocal(`src/${specifier.slice(2)}`);
+      } else if (specifier.startsWith('$lib/')) {
+        resolved = resolveLocal(`src/lib/${specifier.slice(5)}`);
+      } else if (SVELTEKIT_MODULES.test(specifier)) {
+        resolved = true;
+      } else if (specifier.startsWith('node:') || NODE_BUILTINS.has(packageNameOf(specifier))) {
+        resolved = true;
+      } else {
+        const packageName = packageNameOf(specifier);
+        resolved = declared.has(packageName) || declared.has(`@types/${packageName}`);
+        if (!resolved) missingPackages.add(packageName);
+      }
+
+      if (!resolved) unresolved.push({ file: file.path, line, specifier });
+    }
+  }
+
+  const recommendations: string[] = [];
+  if (missingPackages.size > 0) {
+    recommendations.push(`Add missing dependencies to package.json: ${Array.from(missingPackages).join(', ')}`);
+  }
+  if (unresolved.some(entry => /^(\.|@\/|\$lib\/)/.test(entry.specifier))) {
+    recommendations.push('Fix relative imports that point to files which were not generated');
+  }
+
+  return {
+    name: 'Import resolution',
+    weight: 3,
+    score: total === 0 ? 100 : Math.round(100 * (1 - unresolved.length / total)),
+    passed: unresolved.length === 0,
+    details: { importsChecked: total, unresolved },
+    recommendations,
+  };
+};
+
+// 4. Every process.env variable read in code must be declared somewhere
+const checkEnvVars = (files: GeneratedFile[], options: QualityCheckOptions): CheckResult => {
+  const declared = new Set(options.declaredEnvVars || []);
+  for (const file of files.filter(f => /(^|\/)\.env(\.[\w-]+)?$/.test(f.path))) {
+    for (const line of file.content.split('\n')) {
+      const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=/.exec(line);
+      if (match) declared.add(match[1]!);
+    }
+  }
+
+  const referenced = new Map<string, Set<string>>();
+  const pattern = /process\.env(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*['"]([A-Za-z_][A-Za-z0-9_]*)['"]\s*\])/g;
+
+  for (const file of files.filter(f => f.type === 'file' && isScript(f.path))) {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(file.content)) !== null) {
+      const name = (match[1] || match[2])!;
+      if (!referenced.has(name)) referenced.set(name, new Set());
+      referenced.get(name)!.add(file.path);
+    }
+  }
+
+  const missing = Array.from(referenced.entries())
+    .filter(([name]) => !declared.has(name) && !BUILTIN_ENV_VARS.has(name))
+    .map(([name, usedIn]) => ({ name, usedIn: Array.from(usedIn) }));
+
+  return {
+    name: 'Environment variables',
+    weight: 1,
+    score: penalize(missing.length, 15),
+    passed: missing.length === 0,
+    details: { referenced: Array.from(referenced.keys()), missing },
+    recommendations: missing.length > 0
+      ? [`Document these environment variables in .env.example: ${missing.map(m => m.name).join(', ')}`]
+      : [],
+  };
+};
+
+const jsxAttribute = (element: ts.JsxOpeningLikeElement, name: string): ts.JsxAttribute | undefined =>
+  element.attributes.properties.find((property): property is ts.JsxAttribute =>
+    ts.isJsxAttribute(property) && property.name.getText() === name
+  );
+
+const hasSpread = (element: ts.JsxOpeningLikeElement): boolean =>
+  element.attributes.properties.some(ts.isJsxSpreadAttribute);
+
+// 5. Basic JSX accessibility rules (a small subset of jsx-a11y)
+const checkAccessibility = (files: GeneratedFile[]): CheckResult => {
+  const issues: { file: string; line: number; rule: string; message: string }[] = [];
+  const jsxFiles = files.filter(file => /\.(tsx|jsx)$/.test(file.path));
+
+  for (const file of jsxFiles) {
+    const sourceFile = parse(file);
+    const report = (node: ts.Node, rule: string, message: string): void => {
+      issues.push({ file: file.path, line: lineOf(sourceFile, node.getStart()), rule, message });
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) {
+        const tag = node.tagName.getText();
+        const spread = hasSpread(node);
+        const has = (name: string): boolean => !!jsxAttribute(node, name);
+
+        if (tag === 'img' && !has('alt') && !spread) {
+          report(node, 'img-alt', '<img> elements must have an alt attribute');
+        }
+        if (tag === 'html' && !has('lang')) {
+          report(node, 'html-lang', '<html> element must have a lang attribute');
+        }
+        if (tag === 'a' && !has('href') && !spread) {
+          report(node, 'anchor-href', '<a> elements must have an href; use <button> for actions');
+        }
+        if (['div', 'span', 'li', 'p'].includes(tag) && has('onClick') && !(has('role') && (has('onKeyDown') || has('onKeyUp')))) {
+          report(node, 'click-events', `<${tag} onClick> needs a role and a keyboard handler, or use <button>`);
+        }
+        if (['input', 'select', 'textarea'].includes(tag) && !spread &&
+            jsxAttribute(node, 'type')?.initializer?.getText().replace(/['"]/g, '') !== 'hidden' &&
+            !has('aria-label') && !has('aria-labelledby') && !has('id')) {
+          report(node, 'form-label', `<${tag}> must be labelled (aria-label, aria-labelledby, or an id referenced by a <label>)`);
+        }
+        if (has('tabIndex')) {
+          const value = jsxAttribute(node, 'tabIndex')!.initializer?.getText().replace(/[{}'"]/g, '');
+          if (value && Number(value) > 0) {
+            report(node, 'tabindex', 'Avoid positive tabIndex values');
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+  }
+
+  const rules = Array.from(new Set(issues.map(issue => issue.rule)));
+  return {
+    name: 'Accessibility',
+    weight: 1,
+    score: penalize(issues.length, 10),
+    passed: issues.length === 0,
+    details: { filesChecked: jsxFiles.length, issues },
+    recommendations: rules.map(rule => {
+      const example = issues.find(issue => issue.rule === rule)!;
+      return `Accessibility: ${example.message} (${issues.filter(i => i.rule === rule).length} occurrence(s))`;
+    }),
+  };
+};
+
+// Run every static check over a project's files and aggregate the report
+export const runQualityChecks = (
+  files: GeneratedFile[],
+  options: QualityCheckOptions = {}
+): QualityReport => {
+  const { result: packageCheck, packageJson } = checkPackageJson(files);
+  const results: CheckResult[] = [
+    checkTypeScriptSyntax(files),
+    packageCheck,
+    checkImports(files, packageJson),
+    checkEnvVars(files, options),
+    checkAccessibility(files),
+  ];
+
+  const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+  const overall = Math.round(
+    results.reduce((sum, result) => sum + result.score * result.weight, 0) / totalWeight
+  );
+
+  const recommendations = results.flatMap(result => result.recommendations);
+  const minimumScore = parseInt(process.env.MIN_QUALITY_SCORE || '70');
+  if (overall < minimumScore) {
+    recommendations.unshift(`Overall quality ${overall}/100 is below the recommended minimum of ${minimumScore}`);
+  }
+
+  return {
+    overall,
+    checks: results.map(({ name, score, passed, details }) => ({ name, score, passed, details })),
+    recommendations,
+  };
+};
+
+// Re-run the checks for a project, declaring the env vars of its integrations.
+// Files are loaded from the blob store unless the caller already has their contents.
+// Updates the report and score on the document; the caller saves it.
+export const refreshQualityReport = async (project: IProject, files?: GeneratedFile[]): Promise<QualityReport> => {
+  const integrations = await Integration.find({ slug: { $in: project.integrations } }).select('envVars');
+  const qualityReport = runQualityChecks(files || await loadFiles(project.files), {
+    declaredEnvVars: integrations.flatMap(integration => integration.envVars.map(envVar => envVar.name)),
+  });
+
+  project.qualityReport = qualityReport;
+  project.qualityScore = qualityReport.overall;
+  return qualityReport;
+};
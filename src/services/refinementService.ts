@@ -0,0 +1,83 @@
+import { FileChange, IChat, IProject } from '../types';
+import ProjectRevision from '../models/ProjectRevision';
+import { planRefinement } from './aiService';
+import { refreshQualityReport } from './qualityService';
+import { loadFiles, setProjectFiles } from './fileStoreService';
+import { applyFileChanges, normalizeProjectPath } from '../utils/projectFiles';
+import logger from '../utils/logger';
+
+// Number of earlier chat messages given to the provider as context
+const HISTORY_LENGTH = 10;
+
+export class RefinementConflictError extends Error {
+  constructor() {
+    super('Project was changed while the refinement was being planned');
+    this.name = 'RefinementConflictError';
+  }
+}
+
+export interface RefinementResult {
+  explanation: string;
+  changes: Pick<FileChange, 'path' | 'operation'>[];
+  revision: number;
+  qualityScore: number;
+}
+
+// Interpret a follow-up request against a generated project and apply the resulting
+// change set to its files as a new revision. The chat is only read for context.
+export const refineProject = async ({
+  project,
+  chat,
+  request,
+}: {
+  project: IProject;
+  chat: IChat;
+  request: string;
+}): Promise<RefinementResult> => {
+  const currentFiles = await loadFiles(project.files);
+  const plan = await planRefinement({
+    request,
+    files: currentFiles
+      .filter(file => file.type === 'file')
+      .map(file => ({ path: file.path, content: file.content })),
+    history: chat.messages
+      .slice(-HISTORY_LENGTH - 1, -1)
+      .map(message => ({ role: message.role, content: message.content })),
+    techStack: project.techStack,
+  });
+
+  // Never let a provider write outside the project root
+  const changes = plan.changes.filter(change => {
+    const valid = normalizeProjectPath(change.path) !== null;
+    if (!valid) {
+      logger.warn('Dropping refinement change with invalid path', { projectId: project._id.toString(), path: change.path });
+    }
+    return valid;
+  });
+
+  const { files, applied } = applyFileChanges(currentFiles, changes);
+
+  if (applied.length > 0) {
+    await setProjectFiles(project, files);
+    await refreshQualityReport(project, files);
+    // Planning takes a while; the project may have been edited in the meantime
+    if (!(await project.saveRevision())) {
+      throw new RefinementConflictError();
+    }
+    await ProjectRevision.snapshot(project, { source: 'refinement', summary: `${request}\n\n${plan.explanation}`.slice(0, 5000) });
+  }
+
+  logger.info('Project refined', {
+    projectId: project._id.toString(),
+    revision: project.revision,
+    proposed: plan.changes.length,
+    applied: applied.length,
+  });
+
+  return {
+    explanation: plan.explanation,
+    changes: applied.map(({ path, operation }) => ({ path, operation })),
+    revision: project.revision,
+    qualityScore: project.qualityScore,
+  };
+};
@@ -1,5 +1,5 @@
 import { Request } from 'express';
-import { Document, Types } from 'mongoose';
+import { Document, Model, Query, Types } from 'mongoose';
 
 // User Types
 export interface IUser extends Document {
@@ -42,12 +42,22 @@ export interface IUser extends Document {
 // AI App Builder Types
 
 // Project Types
+// A project file entry; contents live in the blob store under `hash`
+export interface ProjectFile {
+  path: string;
+  type: 'file' | 'directory';
+  size: number;
+  hash: string;
+  // Inline contents of projects saved before the blob store existed
+  content?: string;
+}
+
 export interface IProject extends Document {
   _id: Types.ObjectId;
   name: string;
   description?: string;
   userId: Types.ObjectId;
-  status: 'analyzing' | 'selecting' | 'generating' | 'complete' | 'error';
+  status: 'analyzing' | 'selecting' | 'generating' | 'complete' | 'error' | 'cancelled';
   progress: number;
   currentStep: string;
   userInput: string;
@@ -61,15 +71,14 @@ export interface IProject extends Document {
   components: {
     componentId: Types.ObjectId;
     variantId: string;
+    // Published component version the project's files were rendered from
+    version?: string;
     customizations: any;
   }[];
-  files: {
-    path: string;
-    content: string;
-    type: 'file' | 'directory';
-  }[];
+  files: ProjectFile[];
   packageJson: any;
   integrations: string[];
+  integrationConfigs: Record<string, any>;
   qualityScore: number;
   qualityReport: {
     overall: number;
@@ -86,9 +95,10 @@ export interface IProject extends Document {
   techStack: {
     framework: string;
     language: string;
-    styling: string;
+    styling: StylingSystem;
     database: string;
     auth: string;
+    payments: string;
   };
   stats: {
     totalFiles: number;
@@ -97,25 +107,69 @@ export interface IProject extends Document {
   };
   isPublic: boolean;
   shareToken?: string;
+  shareSettings: {
+    // The share link stops resolving after this date; null or unset never expires
+    expiresAt?: Date | null;
+    allowDownload: boolean;
+    views: number;
+    lastViewedAt?: Date;
+  };
   error?: {
     message: string;
     stack: string;
     timestamp: Date;
   };
+  eventSeq: number;
+  revision: number;
+  // Project this one was copied from, kept for attribution
+  forkedFrom?: {
+    projectId: Types.ObjectId;
+    userId: Types.ObjectId;
+    name: string;
+    revision: number;
+  };
+  forkCount: number;
+  generationAttempts: {
+    jobId: Types.ObjectId;
+    status: 'complete' | 'failed' | 'cancelled';
+    failedStep?: GenerationStep;
+    error?: string;
+    startedAt: Date;
+    endedAt: Date;
+  }[];
   createdAt: Date;
   updatedAt: Date;
   updateProgress(progress: number, step: string): Promise<IProject>;
   markComplete(): Promise<IProject>;
   markError(error: Error): Promise<IProject>;
+  markCancelled(): Promise<IProject>;
+  recordAttempt(attempt: Omit<IProject['generationAttempts'][number], 'endedAt'>): Promise<IProject>;
   generateShareToken(): Promise<IProject>;
+  revokeShareToken(): Promise<IProject>;
+  saveRevision(): Promise<boolean>;
+}
+
+export interface IProjectModel extends Model<IProject> {
+  findByUserId(userId: string, limit?: number): Query<IProject[], IProject>;
+  findPublic(limit?: number): Query<IProject[], IProject>;
+  findByShareToken(shareToken: string): Query<IProject | null, IProject>;
 }
 
 // Component Types
+// Styling systems a generated project (and a component variant) can use
+export type StylingSystem = 'tailwindcss' | 'css-modules' | 'styled-components';
+
+// Frameworks a project can be generated for ('react' and 'vue' use Vite, 'svelte' is SvelteKit)
+export type FrameworkTarget = 'nextjs' | 'react' | 'vue' | 'svelte';
+
 export interface IComponentVariant {
   id: string;
   name: string;
   description: string;
   previewImage: string;
+  styling: StylingSystem[];
+  // Frameworks the variant's code targets; empty means the component's frameworks
+  frameworks: FrameworkTarget[];
   code: {
     component: string;
     styles?: string;
@@ -147,7 +201,7 @@ export interface IComponent extends Document {
   testCoverage: number;
   usageCount: number;
   tags: string[];
-  frameworks: ('nextjs' | 'react' | 'vue' | 'svelte')[];
+  frameworks: FrameworkTarget[];
   version: string;
   author: string;
   status: 'active' | 'deprecated' | 'beta';
@@ -166,6 +220,40 @@ export interface IComponent extends Document {
   updateVariant(variantId: string, updates: any): Promise<IComponent>;
 }
 
+export interface IComponentModel extends Model<IComponent> {
+  searchComponents(
+    query: string,
+    filters?: { category?: string; complexity?: string; tags?: string[]; framework?: string }
+  ): Query<IComponent[], IComponent>;
+  findCompatible(selectedComponentIds: string[]): Query<IComponent[], IComponent>;
+  findByCategory(category: string, limit?: number): Query<IComponent[], IComponent>;
+  getPopular(limit?: number): Query<IComponent[], IComponent>;
+  findForRequirements(requirements: {
+    features: string[];
+    integrations: string[];
+    complexity: string;
+  }): Query<IComponent[], IComponent>;
+}
+
+// Immutable snapshot of a component's renderable content at one version
+export interface IComponentVersion extends Document {
+  _id: Types.ObjectId;
+  componentId: Types.ObjectId;
+  version: string;
+  name: string;
+  variants: IComponentVariant[];
+  dependencies: string[];
+  requiredIntegrations: IComponent['requiredIntegrations'];
+  frameworks: FrameworkTarget[];
+  publishedAt: Date;
+}
+
+export interface IComponentVersionModel extends Model<IComponentVersion> {
+  publish(component: IComponent): Promise<IComponentVersion>;
+  findVersion(componentId: Types.ObjectId | string, version: string): Query<IComponentVersion | null, IComponentVersion>;
+  findForComponent(componentId: Types.ObjectId | string): Query<IComponentVersion[], IComponentVersion>;
+}
+
 // Chat Types
 export interface IChatMessage {
   id: string;
@@ -262,7 +350,7 @@ export interface IIntegration extends Document {
   configSchema: any;
   tags: string[];
   compatibility: {
-    frameworks: ('nextjs' | 'react' | 'vue' | 'svelte')[];
+    frameworks: FrameworkTarget[];
     versions: {
       node?: string;
       npm?: string;
@@ -296,8 +384,187 @@ export interface IIntegration extends Document {
   createdAt: Date;
   updatedAt: Date;
   incrementUsage(): Promise<IIntegration>;
-  addRating(rating: number): Promise<IIntegration>;
-  validateConfig(config: any): { valid: boolean; errors?: string[]; };
+  refreshRating(): Promise<IIntegration>;
+  validateConfig(config: any): { valid: boolean; errors?: ConfigValidationError[]; };
+}
+
+// Integration Rating Types (one rating per user and integration)
+export interface IIntegrationRating extends Document {
+  _id: Types.ObjectId;
+  integrationId: Types.ObjectId;
+  userId: Types.ObjectId;
+  rating: number;
+  review?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IIntegrationRatingModel extends Model<IIntegrationRating> {
+  rate(
+    integrationId: Types.ObjectId | string,
+    userId: Types.ObjectId | string,
+    rating: number,
+    review?: string
+  ): Promise<{ rating: IIntegrationRating; created: boolean }>;
+  summarize(integrationId: Types.ObjectId | string): Promise<IIntegration['rating']>;
+}
+
+// A single JSON Schema violation in an integration config
+export interface ConfigValidationError {
+  path: string;
+  message: string;
+  keyword: string;
+}
+
+export interface IIntegrationModel extends Model<IIntegration> {
+  findByCategory(category: string, limit?: number): Query<IIntegration[], IIntegration>;
+  searchIntegrations(
+    query: string,
+    filters?: { category?: string; complexity?: string; free?: boolean }
+  ): Query<IIntegration[], IIntegration>;
+  getFeatured(limit?: number): Query<IIntegration[], IIntegration>;
+  getPopular(limit?: number): Query<IIntegration[], IIntegration>;
+  findCompatible(framework: string, complexity?: string): Query<IIntegration[], IIntegration>;
+  findByRequirements(requirements: string[]): Query<IIntegration[], IIntegration>;
+}
+
+// Generation Job Types
+export type GenerationStep = 'analyze' | 'select' | 'generate' | 'quality';
+
+export interface IGenerationJob extends Document {
+  _id: Types.ObjectId;
+  projectId: Types.ObjectId;
+  chatId?: Types.ObjectId;
+  userId: Types.ObjectId;
+  userInput: string;
+  preferences: GenerateAppRequest['preferences'];
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  maxAttempts: number;
+  availableAt: Date;
+  lease?: {
+    owner?: string;
+    expiresAt?: Date;
+  };
+  heartbeatAt?: Date;
+  lastCompletedStep?: GenerationStep;
+  state: {
+    analysis?: RequirementAnalysis;
+    selection?: ComponentSelection;
+  };
+  lastError?: {
+    message: string;
+    stack?: string;
+    step?: GenerationStep;
+    timestamp: Date;
+  };
+  startEventSeq: number;
+  cancelRequestedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  heartbeat(leaseMs: number): Promise<boolean>;
+  completeStep(step: GenerationStep, state?: Partial<IGenerationJob['state']>): Promise<IGenerationJob>;
+  markCompleted(): Promise<IGenerationJob>;
+  markFailed(error: Error, step?: GenerationStep): Promise<boolean>;
+  markCancelled(): Promise<IGenerationJob>;
+}
+
+export interface IGenerationJobModel extends Model<IGenerationJob> {
+  enqueue(job: {
+    projectId: Types.ObjectId;
+    chatId?: Types.ObjectId;
+    userId: Types.ObjectId;
+    userInput: string;
+    preferences?: GenerateAppRequest['preferences'];
+    lastCompletedStep?: GenerationStep;
+    state?: IGenerationJob['state'];
+    startEventSeq?: number;
+  }): Promise<IGenerationJob>;
+  claimNext(workerId: string, leaseMs: number): Promise<IGenerationJob | null>;
+  findActiveForProject(projectId: Types.ObjectId | string): Query<IGenerationJob | null, IGenerationJob>;
+  recoverStaleLeases(): Promise<{ requeued: number; failed: IGenerationJob[]; cancelled: IGenerationJob[] }>;
+}
+
+// Generation Event Types (streamed to clients over SSE)
+export type GenerationEventType = 'progress' | 'message' | 'complete' | 'error' | 'cancelled';
+
+export interface IGenerationEvent extends Document {
+  _id: Types.ObjectId;
+  projectId: Types.ObjectId;
+  seq: number;
+  type: GenerationEventType;
+  data: any;
+  createdAt: Date;
+}
+
+export interface IGenerationEventModel extends Model<IGenerationEvent> {
+  record(projectId: Types.ObjectId | string, type: GenerationEventType, data: any): Promise<IGenerationEvent | null>;
+  findAfter(projectId: Types.ObjectId | string, seq: number, limit?: number): Query<IGenerationEvent[], IGenerationEvent>;
+}
+
+// File Blob Types (content-addressed file contents, keyed by SHA-256)
+export interface IFileBlob extends Document<string> {
+  _id: string;
+  content: string;
+  size: number;
+  lines: number;
+  createdAt: Date;
+}
+
+export interface IFileBlobModel extends Model<IFileBlob> {
+  storeMany(contents: string[]): Promise<string[]>;
+  findByHashes(hashes: string[]): Query<IFileBlob[], IFileBlob>;
+}
+
+// Project Revision Types (snapshots of a project's generated output)
+export type RevisionSource = 'generation' | 'refinement' | 'restore' | 'integration' | 'upgrade' | 'edit' | 'import' | 'fork';
+
+// A file change made through the file editing API
+export interface FileEditRecord {
+  path: string;
+  operation: 'create' | 'update' | 'delete' | 'rename';
+  // Previous path of a renamed file
+  from?: string;
+}
+
+export interface IProjectRevision extends Document {
+  _id: Types.ObjectId;
+  projectId: Types.ObjectId;
+  revision: number;
+  source: RevisionSource;
+  summary?: string;
+  restoredFrom?: number;
+  // User who made the change (source 'edit' only)
+  author?: Types.ObjectId;
+  edits?: FileEditRecord[];
+  files: IProject['files'];
+  packageJson: any;
+  components: IProject['components'];
+  qualityScore: number;
+  createdAt: Date;
+}
+
+export interface RevisionSnapshotOptions {
+  source: RevisionSource;
+  summary?: string;
+  restoredFrom?: number;
+  author?: Types.ObjectId;
+  edits?: FileEditRecord[];
+}
+
+export interface IProjectRevisionModel extends Model<IProjectRevision> {
+  snapshot(project: IProject, options: RevisionSnapshotOptions): Promise<IProjectRevision>;
+  findForProject(projectId: Types.ObjectId | string): Query<IProjectRevision[], IProjectRevision>;
+  findRevision(projectId: Types.ObjectId | string, revision: number): Query<IProjectRevision | null, IProjectRevision>;
+}
+
+export interface FileDiff {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  additions: number;
+  deletions: number;
+  diff: string;
 }
 
 // Request Types
@@ -424,7 +691,7 @@ export interface GenerateAppRequest {
     auth?: string;
     database?: string;
     payments?: string;
-    styling?: string;
+    styling?: StylingSystem;
   };
 }
 
@@ -452,6 +719,7 @@ export interface ComponentSearchRequest {
   category?: string;
   complexity?: string;
   tags?: string[];
+  framework?: string;
   limit?: number;
 }
 
@@ -463,6 +731,11 @@ export interface IntegrationSearchRequest {
   limit?: number;
 }
 
+export interface IntegrationRatingRequest {
+  rating: number;
+  review?: string;
+}
+
 // AI Service Types
 export interface RequirementAnalysis {
   features: string[];
@@ -473,10 +746,80 @@ export interface RequirementAnalysis {
   reasoning: string;
 }
 
+// A single file-level edit proposed for a project
+export interface FileChange {
+  path: string;
+  operation: 'create' | 'update' | 'delete';
+  content?: string;
+}
+
+// A file or dependency an integration could not apply cleanly
+export interface IntegrationConflict {
+  path: string;
+  operation: IIntegration['files'][number]['operation'] | 'dependency';
+  reason: string;
+  // Slug of a previously applied integration that touched the same file
+  conflictsWith?: string;
+}
+
+export interface IntegrationApplyResult {
+  files: GeneratedFile[];
+  changes: FileChange[];
+  dependencies: IIntegration['dependencies'];
+  conflicts: IntegrationConflict[];
+}
+
+// A project component whose pinned version is behind the registry
+export interface OutdatedComponent {
+  componentId: string;
+  name: string;
+  variantId: string;
+  // Null for components generated before versions were recorded
+  currentVersion: string | null;
+  latestVersion: string;
+  deprecated: boolean;
+}
+
+// A file or dependency a component upgrade could not change cleanly
+export interface ComponentUpgradeConflict {
+  path: string;
+  reason: string;
+}
+
+export interface ComponentUpgradeResult {
+  fromVersion: string | null;
+  toVersion: string;
+  files: GeneratedFile[];
+  changes: FileChange[];
+  dependencies: { name: string; version: string }[];
+  conflicts: ComponentUpgradeConflict[];
+}
+
+export interface RefinementInput {
+  request: string;
+  files: { path: string; content: string }[];
+  history: { role: string; content: string }[];
+  techStack: GeneratedProject['techStack'];
+}
+
+export interface RefinementPlan {
+  explanation: string;
+  changes: FileChange[];
+}
+
+// Pluggable backend for the AI service (OpenAI, local stub, ...)
+export interface AIProvider {
+  name: string;
+  analyzeRequirements(userInput: string): Promise<RequirementAnalysis>;
+  planRefinement(input: RefinementInput): Promise<RefinementPlan>;
+}
+
 export interface ComponentSelection {
   components: {
     componentId: string;
     variantId: string;
+    // Component version to render; the latest published version when omitted
+    version?: string;
     reasoning: string;
     customizations?: any;
   }[];
@@ -490,6 +833,39 @@ export interface ComponentSelection {
   reasoning: string;
 }
 
+// Component Dependency Resolution Types
+export interface ResolvedDependency {
+  name: string;
+  version: string;
+  type: 'dependencies' | 'devDependencies';
+  // Names of the components and integrations that need the package
+  requiredBy: string[];
+}
+
+export interface ResolvedIntegrationChoice {
+  category: string;
+  slug?: string;
+  name?: string;
+  requiredBy: string[];
+}
+
+export interface ResolutionConflict {
+  type: 'unknown-component' | 'incompatible' | 'version';
+  message: string;
+  components: string[];
+  package?: string;
+  versions?: { version: string; requiredBy: string[] }[];
+}
+
+export interface DependencyResolution {
+  consistent: boolean;
+  components: { id: string; name: string; version: string }[];
+  dependencies: ResolvedDependency[];
+  integrations: ResolvedIntegrationChoice[];
+  conflicts: ResolutionConflict[];
+  warnings: string[];
+}
+
 export interface GeneratedFile {
   path: string;
   content: string;
@@ -504,15 +880,88 @@ export interface GeneratedProject {
   setupInstructions: string;
   qualityScore: number;
   integrations: string[];
+  // Integrations left out because they cannot work without a config; they can be added
+  // to the project once configured
+  skippedIntegrations: { slug: string; name: string; errors: ConfigValidationError[] }[];
+  // Component versions the files were rendered from, in selection order
+  components: { componentId: string; version: string }[];
   techStack: {
     framework: string;
     language: string;
-    styling: string;
+    styling: StylingSystem;
     database?: string;
     auth?: string;
+    payments?: string;
   };
 }
 
+// Supported keys of `project.components[].customizations`
+export interface ComponentCustomizations {
+  // Override the generated component/file name
+  name?: string;
+  // Props passed to the component wherever it is rendered
+  props?: Record<string, any>;
+  // Values substituted for {{key}} placeholders in the variant code
+  variables?: Record<string, string>;
+}
+
+// A selected component resolved against the registry
+export interface ResolvedComponent {
+  component: IComponent;
+  // Published version the variant and dependencies below were taken from
+  version: string;
+  variant: IComponentVariant;
+  dependencies: string[];
+  identifier: string;
+  customizations: ComponentCustomizations;
+}
+
+// Class names generated pages use for the project's styling system
+export interface StylingClasses {
+  main: string;
+  heading: string;
+  centered: string;
+  muted: string;
+}
+
+export interface FrameworkRenderContext {
+  projectName: string;
+  styling: StylingSystem;
+  classes: StylingClasses;
+}
+
+export interface PageDefinition {
+  route: string;
+  title: string;
+  components: ResolvedComponent[];
+}
+
+// Emits the framework-specific parts of a generated project
+export interface FrameworkAdapter {
+  name: FrameworkTarget;
+  label: string;
+  stylings: StylingSystem[];
+  // Extension of component files rendered from variant code
+  componentExtension: 'tsx' | 'vue' | 'svelte';
+  componentsDirectory: string;
+  // Stylesheet imported once by the app shell
+  globalStylesPath: string;
+  // Source globs Tailwind scans for class names
+  tailwindContent: string[];
+  // Emit ES module config files and set "type": "module" in package.json
+  esm: boolean;
+  devUrl: string;
+  scripts: Record<string, string>;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  // Module specifier that imports a generated component
+  componentImport(identifier: string): string;
+  // Config files, entry HTML and other files independent of the selection
+  renderSkeleton(context: FrameworkRenderContext): GeneratedFile[];
+  // App shell, layouts, router and one page per route
+  renderApp(layouts: ResolvedComponent[], pages: PageDefinition[], context: FrameworkRenderContext): GeneratedFile[];
+}
+
 export interface QualityCheck {
   name: string;
   score: number;
@@ -549,6 +998,33 @@ export interface ProjectFilters {
   isPublic?: boolean;
 }
 
+// Character range of a match within a snippet, end exclusive
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface ProjectSearchResult {
+  project: {
+    _id: Types.ObjectId;
+    name: string;
+    description?: string;
+    status: IProject['status'];
+    techStack: IProject['techStack'];
+    updatedAt: Date;
+  };
+  score: number;
+  // Project fields that matched, e.g. name or requirements.features
+  fields: { field: string; snippet: string; highlights: SearchHighlight[] }[];
+  files: {
+    path: string;
+    pathHighlights: SearchHighlight[];
+    // Matching lines, numbered from 1
+    lines: { line: number; text: string; highlights: SearchHighlight[] }[];
+  }[];
+  totalFileMatches: number;
+}
+
 export interface PaginationQuery {
   page?: number;
   limit?: number;
@@ -0,0 +1,81 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import { ConfigValidationError } from '../types';
+
+// Formats are annotations only: catalog schemas may use them without ajv-formats
+const AJV_OPTIONS = { allErrors: true, strict: false, validateFormats: false };
+
+// Only used to check schemas against the meta-schema; nothing is compiled on it
+const ajv = new Ajv(AJV_OPTIONS);
+
+// Compiled validators keyed by the schema's JSON, so repeated validations are cheap.
+// The least recently used validator is evicted once the cache is full.
+const MAX_CACHED_VALIDATORS = 200;
+const validators = new Map<string, ValidateFunction>();
+
+// Each schema is compiled on its own Ajv instance, so a schema's $id is never registered
+// globally and an edited version of the same schema compiles like a new one
+const compile = (schema: object): ValidateFunction => new Ajv(AJV_OPTIONS).compile(schema);
+
+// Convert an ajv instance path ("/webhooks/0/url") into a dotted path ("webhooks.0.url")
+const toPath = (error: ErrorObject): string => {
+  const segments = error.instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (error.keyword === 'required') {
+    segments.push(error.params.missingProperty);
+  } else if (error.keyword === 'additionalProperties') {
+    segments.push(error.params.additionalProperty);
+  }
+
+  return segments.join('.');
+};
+
+const toValidationErrors = (errors: ErrorObject[] | null | undefined): ConfigValidationError[] =>
+  (errors || []).map(error => ({
+    path: toPath(error),
+    message: error.message || 'is invalid',
+    keyword: error.keyword,
+  }));
+
+// Check that a value is a usable JSON Schema. Returns an empty list when it is.
+export const checkSchema = (schema: unknown): ConfigValidationError[] => {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return [{ path: '', message: 'must be an object', keyword: 'type' }];
+  }
+
+  if (!ajv.validateSchema(schema)) {
+    return toValidationErrors(ajv.errors);
+  }
+
+  try {
+    compile(schema);
+  } catch (error) {
+    // Unresolvable $refs and similar problems only surface when compiling
+    return [{ path: '', message: (error as Error).message, keyword: 'compile' }];
+  }
+
+  return [];
+};
+
+// Validate data against a JSON Schema
+export const validateAgainstSchema = (
+  schema: object,
+  data: unknown
+): { valid: boolean; errors: ConfigValidationError[] } => {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (validate) {
+    validators.delete(key);
+  } else {
+    validate = compile(schema);
+    if (validators.size >= MAX_CACHED_VALIDATORS) {
+      validators.delete(validators.keys().next().value!);
+    }
+  }
+  validators.set(key, validate);
+
+  const valid = validate(data) as boolean;
+  return { valid, errors: valid ? [] : toValidationErrors(validate.errors) };
+};
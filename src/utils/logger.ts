@@ -58,4 +58,11 @@ if (process.env.NODE_ENV === 'production') {
   }
 }
 
+// Query parameters that carry credentials (see acceptQueryToken)
+const SENSITIVE_QUERY_PARAMS = ['access_token'];
+
+// Mask credentials in a request URL before it is written to a log
+export const redactUrl = (url: string): string =>
+  url.replace(new RegExp(`([?&](?:${SENSITIVE_QUERY_PARAMS.join('|')})=)[^&#]*`, 'gi'), '$1[REDACTED]');
+
 export default logger; 
\ No newline at end of file
@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { FileChange, FileDiff, GeneratedFile } from '../types';
+
+// SHA-256 of a file's UTF-8 contents, hex encoded. Doubles as the file's blob id and ETag.
+export const hashContent = (content: string): string =>
+  crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+
+// Normalize a project-relative file path, rejecting anything that could escape
+// the project root. Returns null for invalid paths.
+export const normalizeProjectPath = (filePath: string): string | null => {
+  if (typeof filePath !== 'string' || filePath.length === 0 || filePath.length > 500) return null;
+  if (filePath.includes('\0') || filePath.includes('\\')) return null;
+
+  const normalized = path.posix.normalize(filePath.trim()).replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+  if (
+    normalized === '' ||
+    normalized === '.' ||
+    normalized.startsWith('/') ||
+    normalized.split('/').some(segment => segment === '..' || segment === '')
+  ) {
+    return null;
+  }
+
+  return normalized;
+};
+
+// Apply a change set to a list of files without mutating it.
+// Updates to missing files create them; deletes of missing files are skipped.
+export const applyFileChanges = (
+  files: GeneratedFile[],
+  changes: FileChange[]
+): { files: GeneratedFile[]; applied: FileChange[] } => {
+  const byPath = new Map(files.map(file => [file.path, { ...file }]));
+  const applied: FileChange[] = [];
+
+  for (const change of changes) {
+    const filePath = normalizeProjectPath(change.path);
+    if (!filePath) {
+      throw new Error(`Invalid file path: ${change.path}`);
+    }
+
+    if (change.operation === 'delete') {
+      if (byPath.delete(filePath)) {
+        applied.push({ path: filePath, operation: 'delete' });
+      }
+      continue;
+    }
+
+    const existing = byPath.get(filePath);
+    if (existing && existing.content === change.content) continue;
+
+    byPath.set(filePath, { path: filePath, content: change.content || '', type: 'file' });
+    applied.push({ path: filePath, operation: existing ? 'update' : 'create', content: change.content || '' });
+  }
+
+  return { files: Array.from(byPath.values()), applied };
+};
+
+// Compute unified diffs between two versions of a project's files, sorted by path.
+// Unchanged files are omitted.
+export const diffFiles = (
+  from: GeneratedFile[],
+  to: GeneratedFile[],
+  labels: { from: string; to: string }
+): FileDiff[] => {
+  const before = new Map(from.filter(file => file.type === 'file').map(file => [file.path, file.content || '']));
+  const after = new Map(to.filter(file => file.type === 'file').map(file => [file.path, file.content || '']));
+  const paths = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+  const diffs: FileDiff[] = [];
+
+  for (const filePath of paths) {
+    const oldContent = before.get(filePath);
+    const newContent = after.get(filePath);
+    if (oldContent === newContent) continue;
+
+    const patch = createTwoFilesPatch(
+      oldContent === undefined ? '/dev/null' : `a/${filePath}`,
+      newContent === undefined ? '/dev/null' : `b/${filePath}`,
+      oldContent || '',
+      newContent || '',
+      labels.from,
+      labels.to
+    );
+
+    // Skip the "===" separator and the two file header lines
+    const lines = patch.split('\n').slice(3);
+    diffs.push({
+      path: filePath,
+      status: oldContent === undefined ? 'added' : newContent === undefined ? 'removed' : 'modified',
+      additions: lines.filter(line => line.startsWith('+')).length,
+      deletions: lines.filter(line => line.startsWith('-')).length,
+      diff: patch,
+    });
+  }
+
+  return diffs;
+};
+
+// Build a nested directory tree from flat file entries. Nodes are keyed by path segment
+// on prototype-less objects, so segments such as "__proto__" are stored like any other name.
+export const buildFileTree = (files: { path: string; type: string }[]): Record<string, any> => {
+  const tree: any = Object.create(null);
+  
+  files.forEach(file => {
+    const parts = file.path.split('/');
+    let current = tree;
+    
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]!;
+      const isFile = i === parts.length - 1 && file.type === 'file';
+      
+      if (!current[part]) {
+        current[part] = isFile ? { type: 'file', path: file.path } : { type: 'directory', children: Object.create(null) };
+      }
+      
+      if (!isFile) {
+        current = current[part].children;
+      }
+    }
+  });
+  
+  return tree;
+};
@@ -0,0 +1,158 @@
+// Load environment variables first
+import dotenv from 'dotenv';
+dotenv.config();
+
+import os from 'os';
+import mongoose from 'mongoose';
+import { GenerationStep, IGenerationJob } from './types';
+
+// Import configurations
+import connectDB from './config/database';
+
+// Import models and services
+import GenerationJob, { LeaseLostError } from './models/GenerationJob';
+import { finalizeJob, GenerationCancelledError, runGenerationJob } from './services/generationPipeline';
+
+// Import utilities
+import logger from './utils/logger';
+
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+const LEASE_MS = parseInt(process.env.GENERATION_LEASE_MS || '60000'); // 1 minute
+const HEARTBEAT_MS = Math.max(1000, Math.floor(LEASE_MS / 3));
+const POLL_INTERVAL_MS = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '2000');
+const RECOVERY_INTERVAL_MS = parseInt(process.env.WORKER_RECOVERY_INTERVAL_MS || '30000');
+
+let shuttingDown = false;
+let currentJob: Promise<void> | null = null;
+
+const runJob = async (job: IGenerationJob, signal: AbortSignal): Promise<void> => {
+  try {
+    await runGenerationJob(job, signal);
+    await job.markCompleted();
+    await finalizeJob(job, 'complete');
+  } catch (error) {
+    if (error instanceof LeaseLostError) throw error;
+
+    if (error instanceof GenerationCancelledError) {
+      logger.info('Generation job cancelled', { jobId: job._id.toString(), step: error.step });
+      await job.markCancelled();
+      await finalizeJob(job, 'cancelled', error);
+      return;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    const step = (err as Error & { step?: GenerationStep }).step;
+    const willRetry = await job.markFailed(err, step);
+
+    logger.error('Generation job failed', {
+      jobId: job._id.toString(),
+      projectId: job.projectId.toString(),
+      step,
+      attempt: job.attempts,
+      willRetry,
+      error: err.message,
+    });
+
+    if (!willRetry) {
+      await finalizeJob(job, 'failed', Object.assign(err, { step }));
+    }
+  }
+};
+
+const processJob = async (job: IGenerationJob): Promise<void> => {
+  const lease = new AbortController();
+
+  // Keep the lease alive while the pipeline runs; once it is lost the job may already
+  // belong to another worker, so the pipeline stops before its next step
+  const heartbeat = setInterval(() => {
+    job.heartbeat(LEASE_MS)
+      .then(owned => {
+        if (!owned && !lease.signal.aborted) {
+          logger.warn('Lost lease on generation job', { jobId: job._id.toString(), workerId: WORKER_ID });
+          lease.abort();
+        }
+      })
+      .catch(error => logger.error('Generation job heartbeat failed', { jobId: job._id.toString(), error }));
+  }, HEARTBEAT_MS);
+
+  try {
+    await runJob(job, lease.signal);
+  } catch (error) {
+    if (!(error instanceof LeaseLostError)) throw error;
+    // The new owner records the outcome
+    logger.warn('Abandoned generation job after losing its lease', {
+      jobId: job._id.toString(),
+      workerId: WORKER_ID,
+      step: (error as Error & { step?: GenerationStep }).step,
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+// Finish projects whose jobs ran out of attempts (or were being cancelled) while their worker was gone
+const recoverStaleJobs = async (): Promise<void> => {
+  const { requeued, failed, cancelled } = await GenerationJob.recoverStaleLeases();
+
+  if (requeued > 0 || failed.length > 0 || cancelled.length > 0) {
+    logger.warn('Recovered stale generation jobs', { requeued, failed: failed.length, cancelled: cancelled.length });
+  }
+
+  for (const job of failed) {
+    await finalizeJob(job, 'failed', new Error('Generation was interrupted and could not be resumed'));
+  }
+  for (const job of cancelled) {
+    await finalizeJob(job, 'cancelled');
+  }
+};
+
+const poll = async (): Promise<void> => {
+  while (!shuttingDown) {
+    const job = await GenerationJob.claimNext(WORKER_ID, LEASE_MS);
+
+    if (!job) {
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      continue;
+    }
+
+    currentJob = processJob(job);
+    await currentJob;
+    currentJob = null;
+  }
+};
+
+const start = async (): Promise<void> => {
+  await connectDB();
+  logger.info(`Generation worker ${WORKER_ID} started`, { leaseMs: LEASE_MS, pollIntervalMs: POLL_INTERVAL_MS });
+
+  await recoverStaleJobs();
+  const recovery = setInterval(() => {
+    recoverStaleJobs().catch(error => logger.error('Stale job recovery failed', error));
+  }, RECOVERY_INTERVAL_MS);
+
+  await poll();
+
+  clearInterval(recovery);
+  await mongoose.connection.close();
+  logger.info(`Generation worker ${WORKER_ID} stopped`);
+  process.exit(0);
+};
+
+// Graceful shutdown: stop claiming jobs and let the current one finish
+process.on('SIGTERM', () => {
+  logger.info('SIGTERM received. Finishing current generation job before shutting down...');
+  shuttingDown = true;
+  if (!currentJob) {
+    logger.info('No generation job in progress');
+  }
+});
+
+process.on('unhandledRejection', (reason, promise) => {
+  logger.error('Unhandled Promise Rejection:', { reason, promise });
+  process.exit(1);
+});
+
+start().catch(error => {
+  logger.error('Generation worker crashed', error);
+  process.exit(1);
+});